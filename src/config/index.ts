@@ -11,18 +11,83 @@ export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   logLevel: process.env.LOG_LEVEL || 'info',
   apiKey: process.env.API_KEY || 'default-api-key',
+  // Sent as X-Admin-Key for admin operations that delete data. Unset, those operations are disabled over HTTP.
+  adminApiKey: process.env.ADMIN_API_KEY || '',
   uploadDir: path.resolve(process.env.UPLOAD_DIR || path.join(dataDir, 'uploads')),
   processedDir: path.resolve(process.env.PROCESSED_DIR || path.join(dataDir, 'processed')),
   imagesDir: path.resolve(process.env.IMAGES_DIR || path.join(dataDir, 'images')),
+  thumbnailsDir: path.resolve(process.env.THUMBNAILS_DIR || path.join(dataDir, 'thumbnails')),
+  uploadSessionsDir: path.resolve(process.env.UPLOAD_SESSIONS_DIR || path.join(dataDir, 'upload_sessions')),
   dbDir: path.resolve(process.env.DB_DIR || path.join(dataDir, 'database')),
   get dbPath() {
     return path.join(this.dbDir, process.env.DB_FILENAME || 'pdf_service.sqlite');
   },
+  // Where stored files and images live: 'local' keeps them in the data directories, 's3' in an S3-compatible bucket.
+  // With 's3' the upload, processed and images directories only hold files until they are uploaded.
+  storageBackend: (process.env.STORAGE_BACKEND || 'local') as 'local' | 's3',
+  s3Endpoint: process.env.S3_ENDPOINT || '',
+  s3Region: process.env.S3_REGION || 'us-east-1',
+  s3Bucket: process.env.S3_BUCKET || '',
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  // MinIO and most S3-compatible servers need path-style URLs (endpoint/bucket/key)
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : Boolean(process.env.S3_ENDPOINT),
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '52428800'), // 50MB
+  maxImagesPerUpload: parseInt(process.env.MAX_IMAGES_PER_UPLOAD || '50'),
+  // Page edits that would leave a document with more pages than this are rejected
+  maxEditPages: parseInt(process.env.MAX_EDIT_PAGES || '2000'),
+  // Merge requests listing more source documents than this are rejected, as every source is loaded into memory
+  maxMergeSources: parseInt(process.env.MAX_MERGE_SOURCES || '50'),
+  thumbnailDefaultWidth: parseInt(process.env.THUMBNAIL_DEFAULT_WIDTH || '200'),
+  thumbnailMaxWidth: parseInt(process.env.THUMBNAIL_MAX_WIDTH || '1024'),
+  // Conversions whose pages would render larger than this many pixels are rejected (A4 at 600 dpi is about 35 million)
+  maxRenderPixels: parseInt(process.env.MAX_RENDER_PIXELS || '50000000'),
+  // qpdf writes decrypted copies of encrypted PDFs
+  qpdfPath: process.env.QPDF_PATH || 'qpdf',
+  // Stored files expire this long after they are stored, unless an upload sets its own ttlSeconds. 0 keeps files until deleted.
+  fileTtl: parseInt(process.env.FILE_TTL_MS || '604800000'), // 7 days
+  fileSweepInterval: parseInt(process.env.FILE_SWEEP_INTERVAL_MS || '900000'), // 15 minutes
+  // Reconciliation of the data directories against the database. Files younger than the minimum age may belong to a request in flight.
+  reconcileOnStartup: process.env.RECONCILE_ON_STARTUP !== 'false',
+  reconcileDeleteOnStartup: process.env.RECONCILE_DELETE_ON_STARTUP === 'true',
+  reconcileMinAge: parseInt(process.env.RECONCILE_MIN_AGE_MS || '3600000'), // 1 hour
+  // Uploads whose SHA-256 matches a stored original share its stored contents instead of storing a copy; requests can override this with `deduplicate`
+  dedupeUploads: process.env.DEDUPE_UPLOADS === 'true',
+  // Truncation and conversion reuse the outputs of an identical earlier request on identical content
+  derivationCache: process.env.DERIVATION_CACHE !== 'false',
+  // Chunked upload sessions expire this long after their last chunk
+  uploadSessionTtl: parseInt(process.env.UPLOAD_SESSION_TTL_MS || '86400000'), // 24 hours
+  uploadSessionSweepInterval: parseInt(process.env.UPLOAD_SESSION_SWEEP_INTERVAL_MS || '900000'), // 15 minutes
+  sseHeartbeatInterval: parseInt(process.env.SSE_HEARTBEAT_INTERVAL_MS || '15000'),
+  // Recent events kept per stream for clients that reconnect with Last-Event-ID
+  sseBufferSize: parseInt(process.env.SSE_BUFFER_SIZE || '100'),
+  sseRetention: parseInt(process.env.SSE_RETENTION_MS || '600000'), // 10 minutes
+  jobConcurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+  jobPollInterval: parseInt(process.env.JOB_POLL_INTERVAL_MS || '500'),
+  // A job interrupted this many times (e.g. by a crash it caused) fails instead of being re-queued on startup
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+  // How long ?inline=base64 requests wait for their job before answering 202 instead
+  inlineWaitTimeout: parseInt(process.env.INLINE_WAIT_TIMEOUT_MS || '60000'),
+  webhookSecret: process.env.WEBHOOK_SECRET || 'default-webhook-secret',
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+  webhookRetryBaseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '5000'),
+  webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+  urlFetchTimeout: parseInt(process.env.URL_FETCH_TIMEOUT_MS || '60000'),
+  urlFetchMaxRedirects: parseInt(process.env.URL_FETCH_MAX_REDIRECTS || '5'),
+  // Hostnames, or *.domain wildcards. An empty allow list allows every host that is not denied.
+  urlFetchAllowedHosts: (process.env.URL_FETCH_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim()).filter(Boolean),
+  urlFetchDeniedHosts: (process.env.URL_FETCH_DENIED_HOSTS ?? 'localhost,127.0.0.1,[::1],169.254.169.254,metadata.google.internal')
+    .split(',').map(host => host.trim()).filter(Boolean),
+  // Downloads from loopback, private, link-local and other internal addresses are refused unless this is set
+  urlFetchAllowPrivateAddresses: process.env.URL_FETCH_ALLOW_PRIVATE_ADDRESSES === 'true',
   corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
 } as const;
 
 // Validate required environment variables
 if (!process.env.API_KEY) {
   console.warn('⚠️  Warning: API_KEY not set in environment variables. Using default key.');
-}
\ No newline at end of file
+}
+
+if (!process.env.WEBHOOK_SECRET) {
+  console.warn('⚠️  Warning: WEBHOOK_SECRET not set in environment variables. Callbacks are signed with a default secret.');
+}
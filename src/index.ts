@@ -6,16 +6,41 @@ import { authenticateApiKey } from './middleware/auth';
 import { errorHandler } from './middleware/errorHandler';
 import { createPdfRoutes } from './routes/pdfRoutes';
 import { createImageRoutes } from './routes/imageRoutes';
+import { createJobRoutes } from './routes/jobRoutes';
+import { createArchiveRoutes } from './routes/archiveRoutes';
+import { createUploadRoutes } from './routes/uploadRoutes';
+import { createEventRoutes } from './routes/eventRoutes';
+import { createAdminRoutes } from './routes/adminRoutes';
 import { PdfService } from './services/pdfService';
 import { ImageService } from './services/imageService';
 import { StorageService } from './services/storageService';
+import { DerivationCacheService } from './services/derivationCacheService';
+import { BlobStore, LocalBlobStore } from './services/blobStore';
+import { S3BlobStore } from './services/s3BlobStore';
+import { PdfDecryptionService } from './services/pdfDecryptionService';
+import { ArchiveService } from './services/archiveService';
+import { UrlDownloadService } from './services/urlDownloadService';
+import { InlineResultService } from './services/inlineResultService';
+import { ChunkedUploadService } from './services/chunkedUploadService';
+import { RetentionService } from './services/retentionService';
+import { ReconciliationService } from './services/reconciliationService';
+import { EventStreamService } from './services/eventStreamService';
 import { DatabaseService } from './services/databaseService';
 import { FileUtils } from './utils/fileUtils';
 import { logger } from './services/logger';
 import { UploadProgressService } from './services/uploadProgressService';
+import { JobService } from './services/jobService';
+import { JobWorker } from './services/jobWorker';
+import { WebhookService } from './services/webhookService';
+import { TruncationRequest, ImageConversionRequest } from './types';
 
-// We define this variable here to be accessible by the graceful shutdown handlers.
+// We define these variables here to be accessible by the graceful shutdown handlers.
 let databaseService: DatabaseService;
+let jobWorker: JobWorker;
+let webhookService: WebhookService;
+let chunkedUploadService: ChunkedUploadService;
+let retentionService: RetentionService;
+let eventStreamService: EventStreamService;
 
 async function startServer() {
   try {
@@ -25,6 +50,8 @@ async function startServer() {
     await FileUtils.ensureDirectoryExists(config.uploadDir);
     await FileUtils.ensureDirectoryExists(config.processedDir);
     await FileUtils.ensureDirectoryExists(config.imagesDir);
+    await FileUtils.ensureDirectoryExists(config.thumbnailsDir);
+    await FileUtils.ensureDirectoryExists(config.uploadSessionsDir);
     await FileUtils.ensureDirectoryExists(config.dbDir); // This was the missing piece.
     logger.info('All data directories are ready.');
 
@@ -33,10 +60,63 @@ async function startServer() {
     databaseService = new DatabaseService(config.dbPath);
     databaseService.init();
 
-    const storageService = new StorageService(databaseService);
-    const pdfService = new PdfService(storageService);
-    const imageService = new ImageService(storageService);
+    const blobStore: BlobStore = config.storageBackend === 's3'
+      ? new S3BlobStore({
+          endpoint: config.s3Endpoint,
+          region: config.s3Region,
+          bucket: config.s3Bucket,
+          credentials: { accessKeyId: config.s3AccessKeyId, secretAccessKey: config.s3SecretAccessKey },
+          forcePathStyle: config.s3ForcePathStyle
+        })
+      : new LocalBlobStore();
+    const storageService = new StorageService(databaseService, blobStore);
+    const decryptionService = new PdfDecryptionService(storageService);
+    const derivationCache = new DerivationCacheService(databaseService, storageService);
+    const pdfService = new PdfService(storageService, decryptionService, derivationCache);
+    const imageService = new ImageService(storageService, decryptionService, derivationCache);
+    const archiveService = new ArchiveService(storageService);
+    const urlDownloadService = new UrlDownloadService();
     const uploadProgressService = new UploadProgressService();
+    chunkedUploadService = new ChunkedUploadService(databaseService);
+    const jobService = new JobService(databaseService);
+    const inlineResultService = new InlineResultService(storageService, jobService);
+
+    // The worker runs truncation and conversion jobs outside the HTTP request cycle
+    jobWorker = new JobWorker(jobService, {
+      concurrency: config.jobConcurrency,
+      pollInterval: config.jobPollInterval
+    });
+    jobWorker.registerHandler('truncate', (job, onProgress) =>
+      pdfService.processPdfTruncation(job.sourceKey, job.payload as TruncationRequest, {
+        jobId: job.id,
+        onProgress,
+        password: jobService.getJobPassword(job.id)
+      })
+    );
+    jobWorker.registerHandler('convert', (job, onProgress) =>
+      imageService.processPdfToImages(job.sourceKey, job.payload as ImageConversionRequest, {
+        jobId: job.id,
+        onProgress,
+        password: jobService.getJobPassword(job.id)
+      })
+    );
+
+    // Finished jobs with a callbackUrl get a signed webhook delivery
+    webhookService = new WebhookService(databaseService);
+    jobService.on('finished', (job) => webhookService.scheduleJobCallback(job));
+
+    // Expired files are swept in the background; reconciliation finds what the database and disk disagree on
+    retentionService = new RetentionService(storageService, jobService);
+    const reconciliationService = new ReconciliationService(storageService, chunkedUploadService);
+
+    // Upload progress, job progress and processing status changes are pushed to Server-Sent Events streams
+    eventStreamService = new EventStreamService();
+    uploadProgressService.on('progress', (uploadId, progress) => eventStreamService.publishUploadProgress(uploadId, progress));
+    storageService.on('statusChanged', (status, kind) => eventStreamService.publishProcessingStatus(status, kind));
+    jobService.on('progress', (job) => eventStreamService.publishJobProgress(job));
+    jobService.on('finished', (job) =>
+      eventStreamService.publishJobFinished(job, jobService.listActiveJobs(job.sourceKey).length === 0)
+    );
 
     // --- STEP 3: Create and configure the Express app ---
     const app = express();
@@ -46,7 +126,8 @@ async function startServer() {
     app.use(cors({ origin: config.corsOrigins, credentials: true }));
 
     // Body parsing middleware
-    app.use(express.json({ limit: '10mb' }));
+    // Base64 JSON uploads are a third larger than the PDF they carry
+    app.use(express.json({ limit: Math.ceil(config.maxFileSize * 4 / 3) + 1024 * 1024 }));
     app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Health check endpoint (no auth required)
@@ -71,27 +152,70 @@ async function startServer() {
             // PDF endpoints
             'POST /api/pdf/initiate-upload': 'Get a unique ID to track upload progress',
             'GET /api/pdf/upload-progress/:uploadId': 'Check the progress of a file upload',
-            'POST /api/pdf/upload-and-truncate': 'Upload PDF and start truncation',
+            'POST /api/pdf/upload-and-truncate': 'Upload and truncate a PDF (201 with keys; 202 with a jobId when a callbackUrl is given)',
             'POST /api/pdf/upload': 'Upload PDF only',
-            'POST /api/pdf/truncate/:key': 'Start truncation for uploaded PDF',
-            'GET /api/pdf/status/:key': 'Check processing status',
+            'POST /api/pdf/upload-from-url': 'Download a PDF from a URL and store it (body: url, headers, filename, timeoutMs, password, ttlSeconds; optional X-Upload-ID for progress)',
+            'POST /api/pdf/truncate/:key': 'Queue truncation for uploaded PDF (returns 202 with a jobId)',
+            'POST /api/pdf/decrypt/:key': 'Write a decrypted copy of an encrypted PDF (body: password)',
+            'POST /api/pdf/merge': 'Merge page selections from several stored PDFs (up to MAX_MERGE_SOURCES, default 50) into a new PDF',
+            'POST /api/pdf/split/:key': 'Split a PDF every N pages, at break pages, or at top-level bookmarks',
+            'POST /api/pdf/edit/:key': 'Apply page operations (rotate, move, delete, duplicate, insertBlank) into a new PDF',
+            'PATCH /api/pdf/expiry/:key': 'Set a new lifetime (ttlSeconds) or an absolute expiresAt for a file; 0 or null keeps it until deleted',
+            'PATCH /api/pdf/metadata/:key': 'Write document info, custom keys and optional XMP, in place or into a new PDF',
+            'POST /api/pdf/from-images': 'Build a PDF from PNG/JPEG uploads (field "images") or stored image keys',
+            'POST /api/pdf/stamp/:key': 'Stamp text (with {page}, {total}, {date}) or an image onto pages into a new PDF',
+            'GET /api/pdf/form/:key': 'List form fields with type, value, options and page',
+            'POST /api/pdf/form/:key': 'Fill form fields from a name/value map, optionally flattening, into a new PDF',
+            'POST /api/pdf/text/:key': 'Extract text per page (modes: plain, raw, layout, words, lines; password for encrypted PDFs)',
+            'GET /api/pdf/thumbnail/:key/:page': 'PNG thumbnail of one page (?width=, cached, with ETag and 304 support)',
+            'GET /api/pdf/status/:key': 'List all truncation runs for a source PDF, newest first',
             'GET /api/pdf/download/:key': 'Download processed PDF',
-            'GET /api/pdf/info/:key': 'Get file information',
-            'GET /api/pdf/list': 'List all files',
-            'DELETE /api/pdf/truncated/:key': 'Delete truncated PDF',
-            'DELETE /api/pdf/original/:key': 'Delete original PDF',
+            'GET /api/pdf/info/:key': 'Get file information, document info and per-page geometry',
+            'GET /api/pdf/list': 'List all files with their stored PDF summary',
+            'GET /api/pdf/:key/derivatives': 'Get the tree of files derived from a PDF',
+            'DELETE /api/pdf/truncated/:key': 'Delete truncated PDF (?cascade=true also deletes its derivatives)',
+            'DELETE /api/pdf/original/:key': 'Delete original PDF (?cascade=true also deletes its derivatives)',
+            'DELETE /api/pdf/derived/:key': 'Delete any derived PDF such as a merged file (?cascade=true also deletes its derivatives)',
             // Image endpoints
-            'POST /api/images/convert/:key': 'Convert PDF pages to images',
-            'GET /api/images/status/:key': 'Check image processing status',
+            'POST /api/images/convert/:key': 'Queue conversion of PDF pages to images with scale, dpi or width/height fit, color mode, jpegQuality, transparent, box and region (returns 202 with a jobId)',
+            'GET /api/images/status/:key': 'List all image conversion runs for a source PDF, newest first',
             'GET /api/images/download/:imageKey': 'Download specific image',
             'GET /api/images/list/:originalKey': 'List all images for original PDF',
+            'GET /api/images/archive/:originalKey': 'Stream a ZIP of all images for a PDF as page_001.png, ... (?pages=1,2&format=png)',
             'GET /api/images/info/:imageKey': 'Get image information',
             'DELETE /api/images/:imageKey': 'Delete specific image',
-            'DELETE /api/images/original/:originalKey': 'Delete all images for original PDF'
+            'DELETE /api/images/original/:originalKey': 'Delete all images for original PDF',
+            // Chunked upload endpoints
+            'POST /api/uploads': 'Create a resumable upload session (body: filename, totalSize)',
+            'HEAD /api/uploads/:uploadId': 'Current offset of an upload session in the Upload-Offset header',
+            'GET /api/uploads/:uploadId': 'Offset, progress and expiry of an upload session',
+            'PATCH /api/uploads/:uploadId': 'Append a chunk (application/offset+octet-stream) at the Upload-Offset header',
+            'POST /api/uploads/:uploadId/complete': 'Validate and store a fully received upload (body: password, ttlSeconds); repeatable',
+            'DELETE /api/uploads/:uploadId': 'Abandon an upload session',
+            // Event stream endpoints (Server-Sent Events)
+            'GET /api/events/uploads/:uploadId': 'Stream upload progress until the upload completes or fails',
+            'GET /api/events/jobs/:jobId': 'Stream progress and processing status of a job until it completes or fails',
+            'GET /api/events/files/:key': 'Stream job progress and processing status for a file until it has no active jobs',
+            // Archive endpoints
+            'POST /api/archive': 'Stream a ZIP of any stored files and images (body: fileKeys, imageKeys, name)',
+            // Job endpoints
+            'GET /api/jobs/:jobId': 'Check progress, result keys and errors of a background job',
+            'GET /api/jobs/:jobId/callbacks': 'Inspect webhook callback deliveries and attempts for a job',
+            // Admin endpoints
+            'POST /api/admin/reconcile': 'Report files on disk without a database row and rows whose stored object is gone (body: dryRun, default true; minAgeMs). dryRun: false deletes them and needs X-Admin-Key matching ADMIN_API_KEY'
           },
+          callbacks: 'Truncation and conversion requests accept an optional callbackUrl. When the job finishes, the result is POSTed there, signed in the X-Webhook-Signature header as sha256=HMAC-SHA256(WEBHOOK_SECRET, "<X-Webhook-Timestamp>.<raw body>").',
+          encryptedPdfs: 'Upload, truncation, conversion and text extraction requests accept an optional password for encrypted PDFs. It is never stored; requests for an encrypted file without it fail with PASSWORD_REQUIRED, as do jobs with a password that were still queued or running when the service restarted.',
+          inlineResults: 'Download, truncation and conversion routes accept ?inline=base64. Files are then returned base64-encoded in the JSON envelope; truncation and conversion wait for their job (up to INLINE_WAIT_TIMEOUT_MS, otherwise 202 as usual).',
+          retention: 'Stored files expire after FILE_TTL_MS unless an upload sends ttlSeconds (0 keeps the file until deleted). Expired files are swept with their derived files, images, thumbnails and status rows.',
+          base64Upload: 'POST /api/pdf/upload and /api/pdf/upload-and-truncate also accept application/json with { filename, data } (base64) plus the usual fields. No X-Upload-ID is needed.',
+          storage: `Stored files and images are kept in the ${config.storageBackend} backend (STORAGE_BACKEND=local|s3). With s3, the data directories only hold files while they are processed.`,
+          deduplication: 'Uploads record the SHA-256 of their contents. With deduplicate=true (default DEDUPE_UPLOADS) an upload identical to a stored original gets its own key, name and expiry over the stored contents, with deduplicated: true; the contents are kept until the last file sharing them is deleted. Truncations and conversions repeated on identical content reuse the earlier outputs under new keys of their own, with cached: true (DERIVATION_CACHE=false turns this off).',
+          eventStreams: 'Event streams send progress, status, completed and failed events with heartbeat comments. Reconnect with Last-Event-ID to receive missed events; otherwise a stream starts with the current state.',
           authentication: 'API Key required in X-API-Key header or Authorization header. Upload routes also require an X-Upload-ID header.',
           supportedFormats: {
             upload: ['application/pdf'],
+            imageUpload: ['image/png', 'image/jpeg'],
             imageFormats: ['png', 'jpeg', 'tiff']
           },
           maxFileSize: `${config.maxFileSize} bytes (${Math.round(config.maxFileSize / 1024 / 1024)}MB)`
@@ -103,10 +227,25 @@ async function startServer() {
     app.use('/api', authenticateApiKey);
 
     // PDF routes
-    app.use('/api/pdf', createPdfRoutes(pdfService, storageService, uploadProgressService));
+    app.use('/api/pdf', createPdfRoutes(pdfService, storageService, uploadProgressService, jobService, imageService, decryptionService, urlDownloadService, inlineResultService));
 
     // Image routes
-    app.use('/api/images', createImageRoutes(imageService, storageService));
+    app.use('/api/images', createImageRoutes(imageService, storageService, jobService, decryptionService, archiveService, inlineResultService));
+
+    // Resumable chunked upload routes
+    app.use('/api/uploads', createUploadRoutes(chunkedUploadService, pdfService, storageService));
+
+    // Server-Sent Events routes
+    app.use('/api/events', createEventRoutes(eventStreamService, jobService, uploadProgressService, storageService));
+
+    // Archive routes
+    app.use('/api/archive', createArchiveRoutes(archiveService));
+
+    // Job routes
+    app.use('/api/jobs', createJobRoutes(jobService, webhookService));
+
+    // Admin routes
+    app.use('/api/admin', createAdminRoutes(reconciliationService));
 
     // 404 handler
     app.use((req, res) => {
@@ -135,18 +274,37 @@ async function startServer() {
 📁 Processed:  ${config.processedDir}
 🖼️  Images:     ${config.imagesDir}
 🗄️  Database:   ${config.dbPath}
+🪣 Storage:    ${config.storageBackend === 's3' ? `s3://${config.s3Bucket}` : 'local'}
 🎯 Max Size:   ${Math.round(config.maxFileSize / 1024 / 1024)}MB
 🌍 Environment: ${config.nodeEnv}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
       `;
       logger.info(banner);
+      jobWorker.start();
+      webhookService.start();
+      chunkedUploadService.start();
+      retentionService.start();
+      eventStreamService.start();
+      if (config.reconcileOnStartup) {
+        reconciliationService.reconcile({ dryRun: !config.reconcileDeleteOnStartup, minAgeMs: config.reconcileMinAge })
+          .catch(error => logger.error({ err: error }, 'Startup reconciliation failed'));
+      }
     });
 
     // Graceful shutdown handlers need access to the server and db connection
     const shutdown = (signal: string) => {
       logger.info(`🔄 ${signal} received, shutting down gracefully...`);
-      server.close(() => {
+      // Event streams stay open until their job ends and server.close waits for every connection,
+      // so they are ended and the remaining connections closed once the server stops listening
+      eventStreamService.closeAll();
+      server.close(async () => {
         logger.info('HTTP server closed.');
+        // Let in-flight jobs finish before the database goes away
+        await jobWorker.stop();
+        webhookService.stop();
+        chunkedUploadService.stop();
+        retentionService.stop();
+        eventStreamService.stop();
         if (databaseService && databaseService.db) {
           try {
             // The .close() method is synchronous and does not take a callback.
@@ -159,6 +317,7 @@ async function startServer() {
         }
         process.exit(0); // Exit cleanly
       });
+      server.closeAllConnections();
     };
     
     process.on('SIGTERM', () => shutdown('SIGTERM'));
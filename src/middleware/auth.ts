@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config';
-import { UnauthorizedError } from '../utils/errors';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
 import { logger } from '../services/logger';
 
 export const authenticateApiKey = (req: Request, res: Response, next: NextFunction): void => {
@@ -25,4 +25,21 @@ export const authenticateApiKey = (req: Request, res: Response, next: NextFuncti
   }
   
   next();
-};
\ No newline at end of file
+};
+
+/**
+ * Guards admin operations that delete data. They need the separate admin key in X-Admin-Key
+ * on top of the API key, and are refused outright when no admin key is configured.
+ */
+export const requireAdminKey = (req: Request, adminApiKey: string = config.adminApiKey): void => {
+  if (!adminApiKey) {
+    throw new ForbiddenError('This admin operation is disabled. Set ADMIN_API_KEY to enable it.');
+  }
+
+  const rawAdminKeyHeader = req.headers['x-admin-key'];
+  const adminKey = Array.isArray(rawAdminKeyHeader) ? rawAdminKeyHeader[0] : rawAdminKeyHeader;
+  if (adminKey !== adminApiKey) {
+    logger.warn({ ip: req.ip }, 'Admin operation refused: missing or invalid admin key.');
+    throw new ForbiddenError('A valid admin key is required in the X-Admin-Key header.');
+  }
+};
@@ -1,22 +1,32 @@
 import multer from 'multer';
+import crypto from 'crypto';
+import fs from 'fs/promises';
 import path from 'path';
+import { Transform } from 'stream';
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config';
 import { FileUtils } from '../utils/fileUtils';
 import { ValidationError, AppError } from '../utils/errors';
+import { validateBase64Upload } from '../utils/validation';
 import { UploadProgressService } from '../services/uploadProgressService';
 import { logger } from '../services/logger';
 
-const storage = multer.diskStorage({
-  destination: async (req, file, cb) => {
-    try {
-      await FileUtils.ensureDirectoryExists(config.uploadDir);
-      cb(null, config.uploadDir);
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error : new Error('Unknown error occurred');
-      cb(errorMsg, '');
-    }
-  },
+const uploadDestination = async (
+  req: Request,
+  file: Express.Multer.File,
+  cb: (error: Error | null, destination: string) => void
+) => {
+  try {
+    await FileUtils.ensureDirectoryExists(config.uploadDir);
+    cb(null, config.uploadDir);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error : new Error('Unknown error occurred');
+    cb(errorMsg, '');
+  }
+};
+
+const diskStorage = multer.diskStorage({
+  destination: uploadDestination,
   filename: (req, file, cb) => {
     try {
       const key = FileUtils.generateKey();
@@ -37,6 +47,29 @@ const storage = multer.diskStorage({
   }
 });
 
+// Wraps a storage engine so each file's SHA-256 is computed as it streams through, without reading it back
+const hashingStorage = (engine: multer.StorageEngine): multer.StorageEngine => ({
+  _handleFile(req, file, cb) {
+    const hash = crypto.createHash('sha256');
+    const hashing = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+    file.stream.on('error', error => hashing.destroy(error));
+    file.stream.pipe(hashing);
+    engine._handleFile(req, { ...file, stream: hashing }, (error, info) => {
+      cb(error, info && { ...info, sha256: hash.digest('hex') });
+    });
+  },
+  _removeFile(req, file, cb) {
+    engine._removeFile(req, file, cb);
+  }
+});
+
+const storage = hashingStorage(diskStorage);
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   try {
     if (file.mimetype === 'application/pdf') {
@@ -51,6 +84,35 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
   }
 };
 
+// Images are only inputs to other operations, so they do not get a file key
+const imageStorage = multer.diskStorage({
+  destination: uploadDestination,
+  filename: (req, file, cb) => {
+    cb(null, `${FileUtils.generateKey()}_${FileUtils.sanitizeFilename(file.originalname)}`);
+  }
+});
+
+const imageFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (file.mimetype === 'image/png' || file.mimetype === 'image/jpeg') {
+    cb(null, true);
+  } else {
+    cb(new ValidationError('Only PNG and JPEG images are allowed'));
+  }
+};
+
+const multerImageUpload = multer({
+  storage: imageStorage,
+  fileFilter: imageFileFilter,
+  limits: {
+    fileSize: config.maxFileSize,
+    files: config.maxImagesPerUpload,
+    fields: 10,
+    fieldNameSize: 100,
+    fieldSize: 1024 * 1024,
+    parts: config.maxImagesPerUpload + 10
+  }
+});
+
 const multerUpload = multer({
   storage,
   fileFilter,
@@ -64,38 +126,27 @@ const multerUpload = multer({
   }
 });
 
+/**
+ * Accepts a PDF in the multipart `pdf` field, with progress tracked under the X-Upload-ID header,
+ * or as JSON `{ filename, data }` with base64 data. JSON bodies are already parsed when they
+ * arrive, so they need no upload ID.
+ */
 export const handleUploadWithProgress = (uploadProgressService: UploadProgressService) => {
   return (req: Request, res: Response, next: NextFunction) => {
+    if (req.is('application/json')) {
+      storeBase64Upload(req).then(() => next(), next);
+      return;
+    }
+
     const uploadId = req.headers['x-upload-id'] as string;
     if (!uploadId) {
       return next(new ValidationError('X-Upload-ID header is required for uploads.'));
     }
 
-    const contentLength = req.headers['content-length'];
-    if (!contentLength) {
-      return next(new AppError('Content-Length header is required.', 411, 'LENGTH_REQUIRED'));
-    }
-
-    try {
-      uploadProgressService.startUpload(uploadId, parseInt(contentLength, 10));
-    } catch (e) {
-      return next(new ValidationError('Invalid or expired Upload ID. Please initiate the upload again.'));
+    const trackingError = trackUploadProgress(req, uploadProgressService, uploadId);
+    if (trackingError) {
+      return next(trackingError);
     }
-    
-    let loaded = 0;
-    req.on('data', (chunk) => {
-      loaded += chunk.length;
-      uploadProgressService.updateProgress(uploadId, loaded);
-    });
-
-    req.on('end', () => {
-      uploadProgressService.completeUpload(uploadId);
-    });
-
-    req.on('error', (err) => {
-      logger.error({ err, uploadId }, 'Error during file upload stream.');
-      uploadProgressService.failUpload(uploadId, err.message);
-    });
 
     // Pass control to the multer middleware
     multerUpload.single('pdf')(req, res, (err) => {
@@ -106,4 +157,97 @@ export const handleUploadWithProgress = (uploadProgressService: UploadProgressSe
       next(err);
     });
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Accepts PNG/JPEG uploads in the `images` field. Requests that are not multipart pass
+ * through untouched, so the same route can also take a JSON body. Progress is tracked
+ * when an X-Upload-ID header is sent.
+ */
+export const handleImageUploads = (uploadProgressService: UploadProgressService) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.is('multipart/form-data')) {
+      return next();
+    }
+
+    const uploadId = req.headers['x-upload-id'] as string | undefined;
+    if (uploadId) {
+      const trackingError = trackUploadProgress(req, uploadProgressService, uploadId);
+      if (trackingError) {
+        return next(trackingError);
+      }
+    }
+
+    multerImageUpload.array('images', config.maxImagesPerUpload)(req, res, (err) => {
+      if (err && uploadId) {
+        uploadProgressService.failUpload(uploadId, err.message);
+      }
+      next(err);
+    });
+  };
+};
+
+// Writes a base64 JSON upload to the upload directory and exposes it like a multer file
+async function storeBase64Upload(req: Request): Promise<void> {
+  const { filename, data, ...fields } = validateBase64Upload(req.body);
+  const buffer = Buffer.from(data, 'base64');
+  if (buffer.length === 0) {
+    throw new ValidationError('PDF file is required');
+  }
+  if (buffer.length > config.maxFileSize) {
+    throw new ValidationError(`File too large. Maximum size is ${config.maxFileSize} bytes.`);
+  }
+
+  const key = FileUtils.generateKey();
+  const fileName = `${key}_${FileUtils.sanitizeFilename(filename)}`;
+  const filePath = path.join(config.uploadDir, fileName);
+  await FileUtils.ensureDirectoryExists(config.uploadDir);
+  await fs.writeFile(filePath, buffer);
+
+  req.file = {
+    fieldname: 'pdf',
+    originalname: filename,
+    encoding: 'base64',
+    mimetype: 'application/pdf',
+    size: buffer.length,
+    destination: config.uploadDir,
+    filename: fileName,
+    path: filePath,
+    sha256: crypto.createHash('sha256').update(buffer).digest('hex')
+  } as Express.Multer.File;
+  req.body = { ...fields, fileKey: key };
+}
+
+function trackUploadProgress(
+  req: Request,
+  uploadProgressService: UploadProgressService,
+  uploadId: string
+): AppError | undefined {
+  const contentLength = req.headers['content-length'];
+  if (!contentLength) {
+    return new AppError('Content-Length header is required.', 411, 'LENGTH_REQUIRED');
+  }
+
+  try {
+    uploadProgressService.startUpload(uploadId, parseInt(contentLength, 10));
+  } catch (e) {
+    return new ValidationError('Invalid or expired Upload ID. Please initiate the upload again.');
+  }
+  
+  let loaded = 0;
+  req.on('data', (chunk) => {
+    loaded += chunk.length;
+    uploadProgressService.updateProgress(uploadId, loaded);
+  });
+
+  req.on('end', () => {
+    uploadProgressService.completeUpload(uploadId);
+  });
+
+  req.on('error', (err) => {
+    logger.error({ err, uploadId }, 'Error during file upload stream.');
+    uploadProgressService.failUpload(uploadId, err.message);
+  });
+
+  return undefined;
+}
\ No newline at end of file
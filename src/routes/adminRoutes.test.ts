@@ -0,0 +1,78 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { errorHandler } from '../middleware/errorHandler';
+import { createTestDatabase, ensureDataDirectories } from '../test/helpers';
+import { LocalBlobStore } from '../services/blobStore';
+import { ChunkedUploadService } from '../services/chunkedUploadService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { StorageService } from '../services/storageService';
+import { createAdminRoutes } from './adminRoutes';
+
+let baseUrl: string;
+let servers: Server[] = [];
+
+// An app with the admin routes, configured with the given admin key
+async function startApp(adminApiKey: string): Promise<string> {
+  const databaseService = createTestDatabase();
+  const storageService = new StorageService(databaseService, new LocalBlobStore());
+  const reconciliationService = new ReconciliationService(storageService, new ChunkedUploadService(databaseService));
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', createAdminRoutes(reconciliationService, adminApiKey));
+  app.use(errorHandler);
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  servers.push(server);
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/admin`;
+}
+
+function reconcile(url: string, body: object, headers: Record<string, string> = {}) {
+  return fetch(`${url}/reconcile`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+before(async () => {
+  await ensureDataDirectories();
+  baseUrl = await startApp('admin-secret');
+});
+after(() => {
+  servers.forEach(server => server.close());
+  servers = [];
+});
+
+test('reports without the admin key', async () => {
+  const response = await reconcile(baseUrl, {});
+
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).data.dryRun, true);
+});
+
+test('deleting needs the admin key', async () => {
+  const withoutKey = await reconcile(baseUrl, { dryRun: false });
+  const withWrongKey = await reconcile(baseUrl, { dryRun: false }, { 'x-admin-key': 'wrong' });
+  const withKey = await reconcile(baseUrl, { dryRun: false }, { 'x-admin-key': 'admin-secret' });
+
+  assert.equal(withoutKey.status, 403);
+  assert.equal((await withoutKey.json()).error.code, 'FORBIDDEN');
+  assert.equal(withWrongKey.status, 403);
+  assert.equal(withKey.status, 200);
+  assert.equal((await withKey.json()).data.dryRun, false);
+});
+
+test('deleting is disabled when no admin key is configured', async () => {
+  const url = await startApp('');
+
+  const response = await reconcile(url, { dryRun: false }, { 'x-admin-key': '' });
+
+  assert.equal(response.status, 403);
+  assert.match((await response.json()).error.message, /Set ADMIN_API_KEY/);
+});
@@ -0,0 +1,28 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireAdminKey } from '../middleware/auth';
+import { ReconciliationService } from '../services/reconciliationService';
+import { validateReconciliationRequest } from '../utils/validation';
+
+export function createAdminRoutes(reconciliationService: ReconciliationService, adminApiKey?: string): Router {
+  const router = Router();
+
+  // Compare the data directories with the database; dryRun defaults to true, and deleting also needs the admin key
+  router.post('/reconcile', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const request = validateReconciliationRequest(req.body ?? {});
+      if (!request.dryRun) {
+        requireAdminKey(req, adminApiKey);
+      }
+      const report = await reconciliationService.reconcile(request);
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
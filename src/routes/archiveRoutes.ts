@@ -0,0 +1,27 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { ArchiveService } from '../services/archiveService';
+import { validateArchiveRequest } from '../utils/validation';
+import { createZipStream } from '../utils/zipStream';
+
+export function createArchiveRoutes(archiveService: ArchiveService): Router {
+  const router = Router();
+
+  // Stream a ZIP of any stored files and images
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const request = validateArchiveRequest(req.body);
+      // Resolve every key before the first byte is sent, so a missing key is still a clean 404
+      const entries = await archiveService.getArchiveEntries(request);
+      const fileName = (request.name ?? 'archive').replace(/\.zip$/i, '');
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zip"`);
+      await pipeline(createZipStream(entries), res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,82 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { errorHandler } from '../middleware/errorHandler';
+import { createTestDatabase } from '../test/helpers';
+import { LocalBlobStore } from '../services/blobStore';
+import { EventStreamService } from '../services/eventStreamService';
+import { JobService } from '../services/jobService';
+import { StorageService } from '../services/storageService';
+import { UploadProgressService } from '../services/uploadProgressService';
+import { createEventRoutes } from './eventRoutes';
+
+const databaseService = createTestDatabase();
+const jobService = new JobService(databaseService);
+const eventStreamService = new EventStreamService();
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use('/api/events', createEventRoutes(
+    eventStreamService,
+    jobService,
+    new UploadProgressService(),
+    new StorageService(databaseService, new LocalBlobStore())
+  ));
+  app.use(errorHandler);
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/events`;
+});
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// Reads a stream until the server ends it; the timeout fails a stream that stays open
+async function readStream(path: string, headers: Record<string, string> = {}): Promise<string> {
+  const response = await fetch(`${baseUrl}${path}`, { headers, signal: AbortSignal.timeout(2000) });
+  return response.text();
+}
+
+test('a client reconnecting after the terminal event gets a stream that ends', async () => {
+  const job = jobService.enqueue('truncate', 'a', { pages: [1] });
+  jobService.claimNextJob();
+  jobService.completeJob(job.id, { truncatedKey: 'b' });
+  const terminal = eventStreamService.publish(
+    EventStreamService.jobTopic(job.id), 'completed', EventStreamService.describeJob(jobService.getJob(job.id)), true
+  );
+
+  const body = await readStream(`/jobs/${job.id}`, { 'Last-Event-ID': terminal.id });
+
+  assert.match(body, /event: completed\n/);
+});
+
+test('a replay without a terminal event stays open while the job is active', async () => {
+  const job = jobService.enqueue('truncate', 'a', { pages: [1] });
+  jobService.claimNextJob();
+  const progress = eventStreamService.publish(EventStreamService.jobTopic(job.id), 'progress', { progress: 50 });
+
+  const reading = readStream(`/jobs/${job.id}`, { 'Last-Event-ID': progress.id });
+  await new Promise(resolve => setTimeout(resolve, 100));
+  eventStreamService.publish(EventStreamService.jobTopic(job.id), 'completed', { progress: 100 }, true);
+
+  const body = await reading;
+  assert.equal(body.match(/^event: /gm)?.length, 1);
+  assert.match(body, /event: completed\n/);
+});
+
+test('closeAll ends every open stream', async () => {
+  const job = jobService.enqueue('convert', 'a', {});
+  jobService.claimNextJob();
+
+  const reading = readStream(`/jobs/${job.id}`);
+  await new Promise(resolve => setTimeout(resolve, 100));
+  eventStreamService.closeAll();
+
+  assert.match(await reading, /event: progress\n/);
+});
@@ -0,0 +1,153 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { EventStreamService, StreamEvent, streamEventFor } from '../services/eventStreamService';
+import { JobService } from '../services/jobService';
+import { StorageService } from '../services/storageService';
+import { UploadProgressService } from '../services/uploadProgressService';
+import { NotFoundError } from '../utils/errors';
+
+// The state a new subscriber starts from when nothing can be replayed
+interface StreamSnapshot {
+  event: string;
+  data: unknown;
+  terminal: boolean;
+}
+
+export function createEventRoutes(
+  eventStreamService: EventStreamService,
+  jobService: JobService,
+  uploadProgressService: UploadProgressService,
+  storageService: StorageService
+): Router {
+  const router = Router();
+
+  /**
+   * Streams a topic as Server-Sent Events. A client reconnecting with Last-Event-ID gets the
+   * buffered events it missed; otherwise it first gets a snapshot of the current state.
+   * The stream ends after a terminal event, or on reconnect when the snapshot shows nothing is left to wait for.
+   */
+  const streamTopic = async (req: Request, res: Response, topic: string, getSnapshot: () => Promise<StreamSnapshot>) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Keeps reverse proxies such as nginx from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+
+    let closed = false;
+    let ready = false;
+    const pending: StreamEvent[] = [];
+
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    const send = (event: StreamEvent) => {
+      if (closed) {
+        return;
+      }
+      res.write(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      if (event.terminal) {
+        close();
+      }
+    };
+
+    // Subscribe before reading the snapshot, so nothing published in between is lost
+    const unsubscribe = eventStreamService.subscribe(topic, (event) => {
+      if (ready) {
+        send(event);
+      } else {
+        pending.push(event);
+      }
+    }, () => close());
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.sseHeartbeatInterval);
+    req.on('close', close);
+
+    const lastEventId = req.header('last-event-id');
+    const missed = lastEventId ? eventStreamService.eventsSince(topic, lastEventId) : undefined;
+    missed?.forEach(send);
+
+    // A replay without a terminal event may come from a client that already had the last event
+    // (EventSource reconnects after the server ends a stream), so the current state decides whether
+    // the stream stays open; the snapshot is only sent then if it ends the stream
+    if (!closed) {
+      try {
+        const snapshot = await getSnapshot();
+        if (!missed || snapshot.terminal) {
+          send(eventStreamService.createEvent(snapshot.event, snapshot.data, snapshot.terminal));
+        }
+      } catch (error) {
+        send(eventStreamService.createEvent('failed', { message: error instanceof Error ? error.message : 'Unknown error' }, true));
+      }
+    }
+
+    ready = true;
+    pending.forEach(send);
+  };
+
+  // Upload progress for an ID from POST /api/pdf/initiate-upload
+  router.get('/uploads/:uploadId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { uploadId } = req.params;
+      if (!uploadProgressService.getProgress(uploadId)) {
+        throw new NotFoundError('Upload progress not found for this ID.');
+      }
+
+      await streamTopic(req, res, EventStreamService.uploadTopic(uploadId), async () => {
+        const progress = uploadProgressService.getProgress(uploadId);
+        if (!progress) {
+          throw new NotFoundError('Upload progress not found for this ID.');
+        }
+        const finished = progress.status === 'completed' || progress.status === 'error';
+        return { event: finished ? streamEventFor(progress.status) : 'progress', data: progress, terminal: finished };
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Progress and processing status changes of one job, ending when it completes or fails
+  router.get('/jobs/:jobId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      jobService.getJob(jobId); // Confirms the job exists before the stream opens
+
+      await streamTopic(req, res, EventStreamService.jobTopic(jobId), async () => {
+        const job = jobService.getJob(jobId);
+        const finished = job.status === 'completed' || job.status === 'error';
+        return {
+          event: finished ? streamEventFor(job.status) : 'progress',
+          data: EventStreamService.describeJob(job),
+          terminal: finished
+        };
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Job progress and processing status changes for a stored file, ending once it has no active jobs left
+  router.get('/files/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      await storageService.getFile(key);
+
+      // A file without active jobs has nothing left to report, so its snapshot ends the stream
+      await streamTopic(req, res, EventStreamService.fileTopic(key), async () => {
+        const activeJobs = jobService.listActiveJobs(key).map(EventStreamService.describeJob);
+        return { event: 'snapshot', data: { key, activeJobs }, terminal: activeJobs.length === 0 };
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,11 +1,28 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { ImageService } from '../services/imageService';
 import { StorageService } from '../services/storageService';
-import { validateImageConversionRequest } from '../utils/validation';
+import { JobService } from '../services/jobService';
+import { PdfDecryptionService } from '../services/pdfDecryptionService';
+import { ArchiveService } from '../services/archiveService';
+import { InlineResultService } from '../services/inlineResultService';
+import {
+  validateImageConversionRequest,
+  validateImageArchiveRequest,
+  isInlineBase64Requested
+} from '../utils/validation';
 import { ValidationError, NotFoundError } from '../utils/errors';
+import { createZipStream } from '../utils/zipStream';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 
-export function createImageRoutes(imageService: ImageService, storageService: StorageService): Router {
+export function createImageRoutes(
+  imageService: ImageService,
+  storageService: StorageService,
+  jobService: JobService,
+  decryptionService: PdfDecryptionService,
+  archiveService: ArchiveService,
+  inlineResultService: InlineResultService
+): Router {
   const router = Router();
 
   // Convert PDF pages to images
@@ -14,16 +31,31 @@ export function createImageRoutes(imageService: ImageService, storageService: St
       const { key } = req.params;
       
       // Validate image conversion request
-      const conversionRequest = validateImageConversionRequest(req.body);
+      const { callbackUrl, password, ...conversionRequest } = validateImageConversionRequest(req.body);
+      const inline = isInlineBase64Requested(req.query.inline);
       
-      // Process PDF to images conversion
-      const keys = await imageService.processPdfToImages(key, conversionRequest);
+      // Fail fast if the source file does not exist or cannot be opened, rather than queueing a job that cannot succeed
+      const file = await storageService.getFile(key);
+      await decryptionService.assertCanOpen(file, password);
+      await imageService.assertRenderSizeAllowed(file, conversionRequest);
       
-      res.json({
+      // Queue PDF to images conversion for the background worker; the password stays out of the stored payload
+      const job = jobService.enqueue('convert', key, conversionRequest, { callbackUrl, password });
+
+      // With ?inline=base64 the response waits for the job and carries the rendered images
+      const result = inline ? await inlineResultService.waitForInlineResult(job.id) : undefined;
+      if (result) {
+        res.json({ success: true, data: { jobId: job.id, status: 'completed', ...result } });
+        return;
+      }
+      
+      res.status(202).json({
         success: true,
         data: {
-          keys,
-          message: 'PDF to images conversion started successfully'
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/api/jobs/${job.id}`,
+          message: 'PDF to images conversion queued successfully'
         }
       });
     } catch (error) {
@@ -35,11 +67,19 @@ export function createImageRoutes(imageService: ImageService, storageService: St
   router.get('/status/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      const status = await storageService.getImageProcessingStatus(key);
+      const runs = await storageService.listImageProcessingStatuses(key);
+      if (runs.length === 0) {
+        throw new NotFoundError(`Processing status for key ${key} not found`);
+      }
       
+      // Newest run first
       res.json({
         success: true,
-        data: status
+        data: {
+          key,
+          runs,
+          count: runs.length
+        }
       });
     } catch (error) {
       next(error);
@@ -50,13 +90,18 @@ export function createImageRoutes(imageService: ImageService, storageService: St
   router.get('/download/:imageKey', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { imageKey } = req.params;
+      if (isInlineBase64Requested(req.query.inline)) {
+        res.json({ success: true, data: await inlineResultService.inlineImage(imageKey) });
+        return;
+      }
+
       const image = await storageService.getImage(imageKey);
       
       res.setHeader('Content-Type', image.mimeType);
       res.setHeader('Content-Disposition', `attachment; filename="${image.originalName}"`);
       res.setHeader('Content-Length', image.size.toString());
       
-      res.sendFile(path.resolve(image.filePath));
+      await pipeline(await storageService.openObject(image.objectKey), res);
     } catch (error) {
       next(error);
     }
@@ -87,6 +132,25 @@ export function createImageRoutes(imageService: ImageService, storageService: St
     }
   });
 
+  // Stream a ZIP of all images for a PDF, optionally filtered by ?pages=1,2 and ?format=
+  router.get('/archive/:originalKey', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { originalKey } = req.params;
+      const { pages, format } = req.query;
+      const request = validateImageArchiveRequest({
+        pages: typeof pages === 'string' ? pages.split(',') : pages,
+        format
+      });
+      const entries = await archiveService.getImageArchiveEntries(originalKey, request);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${originalKey}_images.zip"`);
+      await pipeline(createZipStream(entries), res);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Delete specific image by image key
   router.delete('/:imageKey', async (req: Request, res: Response, next: NextFunction) => {
     try {
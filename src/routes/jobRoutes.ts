@@ -0,0 +1,69 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { JobService } from '../services/jobService';
+import { WebhookService } from '../services/webhookService';
+
+export function createJobRoutes(jobService: JobService, webhookService: WebhookService): Router {
+  const router = Router();
+
+  // Check the status, progress and result of a background job
+  router.get('/:jobId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      const job = jobService.getJob(jobId);
+
+      res.json({
+        success: true,
+        data: {
+          jobId: job.id,
+          type: job.type,
+          status: job.status,
+          progress: job.progress,
+          sourceKey: job.sourceKey,
+          request: job.payload,
+          callbackUrl: job.callbackUrl ?? null,
+          result: job.result ?? null,
+          error: job.error ?? null,
+          attempts: job.attempts,
+          createdAt: job.createdAt,
+          startedAt: job.startedAt ?? null,
+          completedAt: job.completedAt ?? null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Inspect the webhook callback deliveries of a job, including every attempt
+  router.get('/:jobId/callbacks', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { jobId } = req.params;
+      jobService.getJob(jobId); // Confirms the job exists
+      const deliveries = webhookService.listDeliveriesForJob(jobId);
+
+      res.json({
+        success: true,
+        data: {
+          jobId,
+          deliveries: deliveries.map(delivery => ({
+            id: delivery.id,
+            url: delivery.url,
+            event: delivery.event,
+            status: delivery.status,
+            attempts: delivery.attempts,
+            nextAttemptAt: delivery.nextAttemptAt ?? null,
+            lastError: delivery.lastError ?? null,
+            createdAt: delivery.createdAt,
+            deliveredAt: delivery.deliveredAt ?? null,
+            attemptLog: delivery.attemptLog
+          })),
+          count: deliveries.length
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
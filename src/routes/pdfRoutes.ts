@@ -1,22 +1,56 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { PdfService } from '../services/pdfService';
+import { ImageService } from '../services/imageService';
 import { StorageService } from '../services/storageService';
 // FIX: Corrected the import path for the upload handler.
-import { handleUploadWithProgress } from '../middleware/uploadHandler';
-import { validateTruncationRequest } from '../utils/validation';
+import { handleUploadWithProgress, handleImageUploads } from '../middleware/uploadHandler';
+import {
+  validateTruncationRequest,
+  validateMergeRequest,
+  validateSplitRequest,
+  validateEditRequest,
+  validateTextExtractionRequest,
+  validateMetadataRequest,
+  validateStampRequest,
+  validateFormFillRequest,
+  validateImagesToPdfRequest,
+  validateDecryptRequest,
+  validateThumbnailRequest,
+  validateUrlUploadRequest,
+  validateTtlSeconds,
+  validateDeduplicate,
+  validatePassword,
+  validateFileExpiryRequest,
+  isInlineBase64Requested
+} from '../utils/validation';
 import { FileUtils } from '../utils/fileUtils';
 import { ValidationError, NotFoundError } from '../utils/errors';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import { UploadProgressService } from '../services/uploadProgressService';
+import { JobService } from '../services/jobService';
+import { PdfDecryptionService } from '../services/pdfDecryptionService';
+import { UrlDownloadService } from '../services/urlDownloadService';
+import { InlineResultService } from '../services/inlineResultService';
 import { logger } from '../services/logger';
+import { ImageSource } from '../types';
+
+// Deletes only remove derived files too when the client asks for it with ?cascade=true
+const isCascadeRequested = (req: Request): boolean => req.query.cascade === 'true';
 
 export function createPdfRoutes(
   pdfService: PdfService,
   storageService: StorageService,
-  uploadProgressService: UploadProgressService
+  uploadProgressService: UploadProgressService,
+  jobService: JobService,
+  imageService: ImageService,
+  decryptionService: PdfDecryptionService,
+  urlDownloadService: UrlDownloadService,
+  inlineResultService: InlineResultService
 ): Router {
   const router = Router();
   const upload = handleUploadWithProgress(uploadProgressService);
+  const imageUpload = handleImageUploads(uploadProgressService);
 
   // New route to initiate an upload and get an ID
   router.post('/initiate-upload', (req: Request, res: Response) => {
@@ -57,33 +91,76 @@ export function createPdfRoutes(
       }
 
       const file = req.file;
-      const fileKey = req.body.fileKey;
+      // fileKey is added to the body by the upload handler, not sent by the client
+      const { fileKey, ttlSeconds, deduplicate, ...fields } = req.body;
+      const inline = isInlineBase64Requested(req.query.inline);
       logger.info({ fileKey, originalName: file.originalname, size: file.size, requestId: req.id }, 'File upload complete, starting processing for upload-and-truncate.');
       
-      // Validate PDF
-      await pdfService.validatePdf(file.path);
+      // Validate truncation request
+      const { callbackUrl, password, ...truncationRequest } = validateTruncationRequest(fields);
+      const fileTtl = validateTtlSeconds(ttlSeconds);
+      const dedupe = validateDeduplicate(deduplicate);
+
+      // Validate PDF, checking the password when the file is encrypted
+      const pdfInfo = await pdfService.validatePdf(file.path, password);
       
-      // Store original file
-      await storageService.storeFile(
+      // Store original file; a deduplicated upload shares the contents of a stored original
+      const storedFile = await storageService.storeFile(
         fileKey,
         file.originalname,
         file.filename,
         file.path,
         file.size,
-        file.mimetype
+        file.mimetype,
+        { pdfSummary: pdfInfo.summary, ttlSeconds: fileTtl, sha256: file.sha256, deduplicate: dedupe }
       );
+      const { deduplicated } = storedFile;
+      // Every response describes the stored upload the same way, whether it was processed, queued or waited for
+      const uploaded = { key: storedFile.key, sha256: storedFile.sha256, deduplicated };
 
-      // Validate truncation request
-      const truncationRequest = validateTruncationRequest(req.body);
+      // Without a callbackUrl the truncation runs within the request and responds with its keys
+      if (!callbackUrl) {
+        const keys = await pdfService.processPdfTruncation(storedFile.key, truncationRequest, { password });
+        const file = inline ? await inlineResultService.inlineFile(keys.truncatedKey) : undefined;
+        res.status(201).json({
+          success: true,
+          data: {
+            ...uploaded,
+            keys,
+            ...(file && { file }),
+            message: 'PDF uploaded and truncated successfully'
+          }
+        });
+        return;
+      }
       
-      // Process PDF truncation
-      const keys = await pdfService.processPdfTruncation(fileKey, truncationRequest);
+      // With a callbackUrl the truncation is queued for the background worker, like POST /truncate/:key
+      const job = jobService.enqueue('truncate', storedFile.key, truncationRequest, { callbackUrl, password });
+
+      // With ?inline=base64 the response waits for the job and carries the truncated PDF
+      const result = inline ? await inlineResultService.waitForInlineResult(job.id) : undefined;
+      if (result) {
+        res.json({
+          success: true,
+          data: {
+            ...uploaded,
+            jobId: job.id,
+            status: 'completed',
+            ...result,
+            message: 'PDF uploaded and truncated successfully'
+          }
+        });
+        return;
+      }
       
-      res.status(201).json({
+      res.status(202).json({
         success: true,
         data: {
-          keys,
-          message: 'PDF uploaded and truncation started successfully'
+          ...uploaded,
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/api/jobs/${job.id}`,
+          message: 'PDF uploaded and truncation queued successfully'
         }
       });
     } catch (error) {
@@ -100,10 +177,13 @@ export function createPdfRoutes(
 
       const file = req.file;
       const fileKey = req.body.fileKey;
+      const ttlSeconds = validateTtlSeconds(req.body.ttlSeconds);
+      const deduplicate = validateDeduplicate(req.body.deduplicate);
+      const password = validatePassword(req.body.password);
       logger.info({ fileKey, originalName: file.originalname, size: file.size, requestId: req.id }, 'File upload complete, storing file.');
       
-      // Validate PDF
-      const pdfInfo = await pdfService.validatePdf(file.path);
+      // Validate PDF, checking the password when one is sent for an encrypted file
+      const pdfInfo = await pdfService.validatePdf(file.path, password);
       
       // Store original file
       const storedFile = await storageService.storeFile(
@@ -112,20 +192,87 @@ export function createPdfRoutes(
         file.filename,
         file.path,
         file.size,
-        file.mimetype
+        file.mimetype,
+        { pdfSummary: pdfInfo.summary, ttlSeconds, sha256: file.sha256, deduplicate }
+      );
+      const { deduplicated } = storedFile;
+
+      res.status(201).json({
+        success: true,
+        data: {
+          key: storedFile.key,
+          originalName: storedFile.originalName,
+          size: storedFile.size,
+          pageCount: pdfInfo.pageCount,
+          isEncrypted: pdfInfo.summary.isEncrypted,
+          sha256: storedFile.sha256,
+          deduplicated,
+          expiresAt: storedFile.expiresAt ?? null,
+          message: deduplicated ? 'PDF uploaded; its contents were already stored' : 'PDF uploaded successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Download a PDF from a URL and store it like an upload; progress is tracked when X-Upload-ID is sent
+  router.post('/upload-from-url', async (req: Request, res: Response, next: NextFunction) => {
+    const uploadId = req.headers['x-upload-id'] as string | undefined;
+    try {
+      const { password, ttlSeconds, deduplicate, ...urlRequest } = validateUrlUploadRequest(req.body);
+      if (uploadId && !uploadProgressService.getProgress(uploadId)) {
+        throw new ValidationError('Invalid or expired Upload ID. Please initiate the upload again.');
+      }
+
+      const file = await urlDownloadService.download(urlRequest, uploadId ? {
+        onStart: (totalSize) => uploadProgressService.startUpload(uploadId, totalSize),
+        onProgress: (loaded) => uploadProgressService.updateProgress(uploadId, loaded)
+      } : {});
+      logger.info({ fileKey: file.key, sourceUrl: file.sourceUrl, size: file.size, requestId: req.id }, 'URL download complete, storing file.');
+
+      // Validate PDF, checking the password when one is sent for an encrypted file
+      let pdfInfo;
+      try {
+        pdfInfo = await pdfService.validatePdf(file.filePath, password);
+      } catch (error) {
+        await FileUtils.deleteFile(file.filePath).catch(() => undefined);
+        throw error;
+      }
+
+      const storedFile = await storageService.storeFile(
+        file.key,
+        file.originalName,
+        file.fileName,
+        file.filePath,
+        file.size,
+        file.mimeType,
+        { pdfSummary: pdfInfo.summary, ttlSeconds, sha256: file.sha256, deduplicate }
       );
+      const { deduplicated } = storedFile;
+      if (uploadId) {
+        uploadProgressService.completeUpload(uploadId);
+      }
 
       res.status(201).json({
         success: true,
         data: {
-          key: fileKey,
+          key: storedFile.key,
           originalName: storedFile.originalName,
           size: storedFile.size,
           pageCount: pdfInfo.pageCount,
-          message: 'PDF uploaded successfully'
+          isEncrypted: pdfInfo.summary.isEncrypted,
+          sourceUrl: file.sourceUrl,
+          sha256: storedFile.sha256,
+          deduplicated,
+          expiresAt: storedFile.expiresAt ?? null,
+          message: deduplicated ? 'PDF downloaded; its contents were already stored' : 'PDF downloaded successfully'
         }
       });
     } catch (error) {
+      if (uploadId) {
+        uploadProgressService.failUpload(uploadId, error instanceof Error ? error.message : 'Unknown error');
+      }
       next(error);
     }
   });
@@ -134,19 +281,278 @@ export function createPdfRoutes(
   router.post('/truncate/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      logger.info({ key, requestId: req.id }, 'Starting truncation for previously uploaded file.');
       
       // Validate truncation request
-      const truncationRequest = validateTruncationRequest(req.body);
+      const { callbackUrl, password, ...truncationRequest } = validateTruncationRequest(req.body);
+      const inline = isInlineBase64Requested(req.query.inline);
+
+      // Fail fast if the source file does not exist or cannot be opened, rather than queueing a job that cannot succeed
+      const file = await storageService.getFile(key);
+      await decryptionService.assertCanOpen(file, password);
       
-      // Process PDF truncation
-      const keys = await pdfService.processPdfTruncation(key, truncationRequest);
+      // Queue PDF truncation for the background worker; the password stays out of the stored payload
+      const job = jobService.enqueue('truncate', key, truncationRequest, { callbackUrl, password });
+      logger.info({ key, jobId: job.id, requestId: req.id }, 'Queued truncation for previously uploaded file.');
+
+      const result = inline ? await inlineResultService.waitForInlineResult(job.id) : undefined;
+      if (result) {
+        res.json({ success: true, data: { jobId: job.id, status: 'completed', ...result } });
+        return;
+      }
       
+      res.status(202).json({
+        success: true,
+        data: {
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/api/jobs/${job.id}`,
+          message: 'PDF truncation queued successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Write a decrypted copy of an encrypted PDF
+  router.post('/decrypt/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const decryptRequest = validateDecryptRequest(req.body ?? {});
+      const result = await pdfService.decryptPdf(key, decryptRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDF decrypted successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Merge page selections from several stored PDFs into one new PDF
+  router.post('/merge', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mergeRequest = validateMergeRequest(req.body);
+      const result = await pdfService.mergePdfs(mergeRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDFs merged successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Split a PDF into several new PDFs
+  router.post('/split/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const splitRequest = validateSplitRequest(req.body);
+      const result = await pdfService.splitPdf(key, splitRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          count: result.parts.length,
+          message: 'PDF split successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rotate, move, delete, duplicate or insert pages, producing a new PDF
+  router.post('/edit/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const editRequest = validateEditRequest(req.body);
+      const result = await pdfService.editPdf(key, editRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDF edited successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Assemble PNG/JPEG uploads, or stored image keys, into a new PDF with one image per page
+  router.post('/from-images', imageUpload, async (req: Request, res: Response, next: NextFunction) => {
+    const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+    try {
+      const imagesRequest = validateImagesToPdfRequest(req.body ?? {});
+      if (uploads.length > 0 && imagesRequest.imageKeys) {
+        throw new ValidationError('Send either image uploads or imageKeys, not both');
+      }
+
+      let sources: ImageSource[];
+      if (uploads.length > 0) {
+        sources = uploads.map(upload => ({ filePath: upload.path, originalName: upload.originalname }));
+      } else if (imagesRequest.imageKeys) {
+        const images = await Promise.all(imagesRequest.imageKeys.map(imageKey => storageService.getImage(imageKey)));
+        sources = images.map(image => ({ objectKey: image.objectKey, originalName: image.originalName }));
+      } else {
+        throw new ValidationError('At least one image upload or image key is required');
+      }
+
+      const result = await pdfService.createPdfFromImages(sources, imagesRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDF created from images successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    } finally {
+      // Uploaded images are only inputs, so they are not kept
+      await Promise.allSettled(uploads.map(upload => FileUtils.deleteFile(upload.path)));
+    }
+  });
+
+  // Draw a text or image stamp (watermark, logo, page footer) onto pages, producing a new PDF
+  router.post('/stamp/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const stampRequest = validateStampRequest(req.body);
+      const result = await pdfService.stampPdf(key, stampRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDF stamped successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the AcroForm fields of a PDF
+  router.get('/form/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const fields = await pdfService.getFormFields(key);
+
       res.json({
         success: true,
         data: {
-          keys,
-          message: 'PDF truncation started successfully'
+          key,
+          fields,
+          count: fields.length
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Fill AcroForm fields, optionally flattening the form, producing a new PDF
+  router.post('/form/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const formRequest = validateFormFillRequest(req.body);
+      const result = await pdfService.fillForm(key, formRequest);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'PDF form filled successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Set standard and custom document info entries, optionally mirrored into XMP
+  router.patch('/metadata/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const metadataRequest = validateMetadataRequest(req.body);
+      const result = await pdfService.updateMetadata(key, metadataRequest);
+
+      res.status(result.inPlace ? 200 : 201).json({
+        success: true,
+        data: {
+          ...result,
+          message: result.inPlace ? 'PDF metadata updated successfully' : 'PDF with updated metadata created successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Extend, shorten or clear the expiry of a stored file
+  router.patch('/expiry/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const { ttlSeconds, expiresAt } = validateFileExpiryRequest(req.body);
+      const newExpiry = ttlSeconds !== undefined
+        ? (ttlSeconds > 0 ? new Date(Date.now() + ttlSeconds * 1000) : null)
+        : expiresAt ?? null;
+      const file = await storageService.setFileExpiry(key, newExpiry);
+
+      res.json({
+        success: true,
+        data: {
+          key: file.key,
+          expiresAt: file.expiresAt ?? null,
+          message: file.expiresAt ? 'File expiry updated successfully' : 'File expiry cleared; the file is kept until deleted'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Extract text per page, optionally with word or line bounding boxes
+  router.post('/text/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const textRequest = validateTextExtractionRequest(req.body ?? {});
+      const result = await imageService.extractText(key, textRequest);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Render (or serve the cached) thumbnail of one page; clients can revalidate with If-None-Match
+  router.get('/thumbnail/:key/:page', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const { page, width } = validateThumbnailRequest({ page: req.params.page, width: req.query.width });
+      const thumbnailPath = await imageService.getThumbnail(key, page, width);
+
+      // sendFile sets the ETag and answers conditional requests with 304
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.sendFile(path.resolve(thumbnailPath), { cacheControl: false }, (error) => {
+        if (error && !res.headersSent) {
+          next(error);
         }
       });
     } catch (error) {
@@ -158,11 +564,19 @@ export function createPdfRoutes(
   router.get('/status/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      const status = await storageService.getProcessingStatus(key);
+      const runs = await storageService.listProcessingStatuses(key);
+      if (runs.length === 0) {
+        throw new NotFoundError(`Processing status for key ${key} not found`);
+      }
       
+      // Newest run first
       res.json({
         success: true,
-        data: status
+        data: {
+          key,
+          runs,
+          count: runs.length
+        }
       });
     } catch (error) {
       next(error);
@@ -173,17 +587,19 @@ export function createPdfRoutes(
   router.get('/download/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
+      // getFile also confirms the contents are still in storage
       const file = await storageService.getFile(key);
-      
-      if (!(await FileUtils.fileExists(file.filePath))) {
-        throw new NotFoundError('File not found on disk');
+
+      if (isInlineBase64Requested(req.query.inline)) {
+        res.json({ success: true, data: await inlineResultService.inlineFile(key) });
+        return;
       }
       
       res.setHeader('Content-Type', 'application/pdf');
       res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
       res.setHeader('Content-Length', file.size.toString());
       
-      res.sendFile(path.resolve(file.filePath));
+      await pipeline(await storageService.openObject(file.objectKey), res);
     } catch (error) {
       next(error);
     }
@@ -193,11 +609,13 @@ export function createPdfRoutes(
   router.delete('/truncated/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      await storageService.deleteFile(key);
+      await storageService.getFileOfKind(key, 'truncated');
+      const deletedKeys = await storageService.deleteFile(key, { cascade: isCascadeRequested(req) });
       
       res.json({
         success: true,
-        message: 'Truncated PDF deleted successfully'
+        message: 'Truncated PDF deleted successfully',
+        data: { deletedKeys }
       });
     } catch (error) {
       next(error);
@@ -208,11 +626,33 @@ export function createPdfRoutes(
   router.delete('/original/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      await storageService.deleteFile(key);
+      await storageService.getFileOfKind(key, 'original');
+      const deletedKeys = await storageService.deleteFile(key, { cascade: isCascadeRequested(req) });
       
       res.json({
         success: true,
-        message: 'Original PDF deleted successfully'
+        message: 'Original PDF deleted successfully',
+        data: { deletedKeys }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Delete any derived PDF (merged, truncated, ...)
+  router.delete('/derived/:key', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const file = await storageService.getFile(key);
+      if (file.kind === 'original') {
+        throw new ValidationError(`File ${key} is an original upload. Use DELETE /api/pdf/original/${key} instead.`);
+      }
+      const deletedKeys = await storageService.deleteFile(key, { cascade: isCascadeRequested(req) });
+      
+      res.json({
+        success: true,
+        message: 'Derived PDF deleted successfully',
+        data: { deletedKeys }
       });
     } catch (error) {
       next(error);
@@ -223,7 +663,7 @@ export function createPdfRoutes(
   router.get('/info/:key', async (req: Request, res: Response, next: NextFunction) => {
     try {
       const { key } = req.params;
-      const file = await storageService.getFile(key);
+      const { file, summary, pages } = await pdfService.getDocumentInfo(key);
       
       res.json({
         success: true,
@@ -232,7 +672,19 @@ export function createPdfRoutes(
           originalName: file.originalName,
           size: file.size,
           mimeType: file.mimeType,
-          createdAt: file.createdAt
+          kind: file.kind,
+          parentKey: file.parentKey ?? null,
+          operation: file.operation ?? null,
+          sha256: file.sha256 ?? null,
+          pageCount: summary.pageCount,
+          pdfVersion: summary.pdfVersion ?? null,
+          isEncrypted: summary.isEncrypted,
+          isTagged: summary.isTagged,
+          hasForms: summary.hasForms,
+          documentInfo: summary.documentInfo,
+          pages,
+          createdAt: file.createdAt,
+          expiresAt: file.expiresAt ?? null
         }
       });
     } catch (error) {
@@ -240,6 +692,21 @@ export function createPdfRoutes(
     }
   });
 
+  // Get the tree of files derived from a PDF
+  router.get('/:key/derivatives', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { key } = req.params;
+      const tree = await storageService.getDerivativeTree(key);
+      
+      res.json({
+        success: true,
+        data: tree
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // List all files
   router.get('/list', async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -252,7 +719,19 @@ export function createPdfRoutes(
             key: file.key,
             originalName: file.originalName,
             size: file.size,
-            createdAt: file.createdAt
+            kind: file.kind,
+            parentKey: file.parentKey ?? null,
+            sha256: file.sha256 ?? null,
+            // Summaries are missing for files stored before they were recorded
+            pageCount: file.pdfSummary?.pageCount ?? null,
+            pdfVersion: file.pdfSummary?.pdfVersion ?? null,
+            isEncrypted: file.pdfSummary?.isEncrypted ?? null,
+            isTagged: file.pdfSummary?.isTagged ?? null,
+            hasForms: file.pdfSummary?.hasForms ?? null,
+            title: file.pdfSummary?.documentInfo.title ?? null,
+            author: file.pdfSummary?.documentInfo.author ?? null,
+            createdAt: file.createdAt,
+            expiresAt: file.expiresAt ?? null
           })),
           count: files.length
         }
@@ -0,0 +1,173 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ChunkedUploadService } from '../services/chunkedUploadService';
+import { PdfService } from '../services/pdfService';
+import { StorageService } from '../services/storageService';
+import {
+  validateUploadSessionRequest,
+  validateCompleteUploadRequest,
+  validateUploadOffset
+} from '../utils/validation';
+import { AppError } from '../utils/errors';
+import { logger } from '../services/logger';
+import { UploadSession } from '../types';
+
+// Chunks are sent as raw bytes, so the JSON and form body parsers leave them alone
+const CHUNK_CONTENT_TYPES = ['application/offset+octet-stream', 'application/octet-stream'];
+
+export function createUploadRoutes(
+  chunkedUploadService: ChunkedUploadService,
+  pdfService: PdfService,
+  storageService: StorageService
+): Router {
+  const router = Router();
+
+  const setOffsetHeaders = (res: Response, session: UploadSession) => {
+    res.setHeader('Upload-Offset', session.offset.toString());
+    res.setHeader('Upload-Length', session.totalSize.toString());
+    res.setHeader('Upload-Expires', session.expiresAt.toUTCString());
+    res.setHeader('Cache-Control', 'no-store');
+  };
+
+  const describeSession = (session: UploadSession) => ({
+    uploadId: session.id,
+    originalName: session.originalName,
+    totalSize: session.totalSize,
+    offset: session.offset,
+    percentage: Math.round((session.offset / session.totalSize) * 100),
+    status: session.status,
+    fileKey: session.fileKey ?? null,
+    expiresAt: session.expiresAt
+  });
+
+  // Create a resumable upload session for a PDF of a known size
+  router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const request = validateUploadSessionRequest(req.body);
+      const session = await chunkedUploadService.createSession(request);
+
+      setOffsetHeaders(res, session);
+      res.status(201).json({
+        success: true,
+        data: {
+          ...describeSession(session),
+          uploadUrl: `/api/uploads/${session.id}`,
+          message: 'Upload session created. PATCH chunks with an Upload-Offset header, then POST to /complete.'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Current offset of a session, for resuming after a disconnect
+  router.head('/:uploadId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = chunkedUploadService.getSession(req.params.uploadId);
+      setOffsetHeaders(res, session);
+      res.status(200).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get('/:uploadId', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = chunkedUploadService.getSession(req.params.uploadId);
+      setOffsetHeaders(res, session);
+      res.json({ success: true, data: describeSession(session) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Append a chunk starting at the Upload-Offset header
+  router.patch('/:uploadId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { uploadId } = req.params;
+      if (!req.is(CHUNK_CONTENT_TYPES)) {
+        throw new AppError(`Chunks must be sent as ${CHUNK_CONTENT_TYPES.join(' or ')}`, 415, 'UNSUPPORTED_MEDIA_TYPE');
+      }
+      const offset = validateUploadOffset(req.headers['upload-offset']);
+
+      const session = await chunkedUploadService.appendChunk(uploadId, offset, req);
+      logger.debug({ uploadId, offset: session.offset, totalSize: session.totalSize }, 'Upload chunk received');
+
+      setOffsetHeaders(res, session);
+      res.json({ success: true, data: describeSession(session) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Validate and store a fully received upload. Repeating the call returns the same file key.
+  router.post('/:uploadId/complete', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { uploadId } = req.params;
+      const { password, ttlSeconds, deduplicate } = validateCompleteUploadRequest(req.body ?? {});
+
+      const session = chunkedUploadService.getSession(uploadId);
+      if (session.status === 'completed' && session.fileKey) {
+        const storedFile = await storageService.getFile(session.fileKey);
+        res.json({
+          success: true,
+          data: {
+            key: storedFile.key,
+            originalName: storedFile.originalName,
+            size: storedFile.size,
+            pageCount: storedFile.pdfSummary?.pageCount,
+            isEncrypted: storedFile.pdfSummary?.isEncrypted,
+            sha256: storedFile.sha256 ?? null,
+            expiresAt: storedFile.expiresAt ?? null,
+            message: 'PDF upload was already completed'
+          }
+        });
+        return;
+      }
+
+      // Validate before the part file is moved, so a wrong password can be retried
+      const pdfInfo = await pdfService.validatePdf(chunkedUploadService.getCompletedPartPath(uploadId), password);
+      const file = await chunkedUploadService.finalize(uploadId);
+
+      // Chunks can arrive across restarts, so the hash is computed once the part file is complete
+      const storedFile = await storageService.storeFile(
+        file.key,
+        file.originalName,
+        file.fileName,
+        file.filePath,
+        file.size,
+        'application/pdf',
+        { pdfSummary: pdfInfo.summary, ttlSeconds, deduplicate }
+      );
+      const { deduplicated } = storedFile;
+
+      res.status(201).json({
+        success: true,
+        data: {
+          key: storedFile.key,
+          originalName: storedFile.originalName,
+          size: storedFile.size,
+          pageCount: pdfInfo.pageCount,
+          isEncrypted: pdfInfo.summary.isEncrypted,
+          sha256: storedFile.sha256,
+          deduplicated,
+          expiresAt: storedFile.expiresAt ?? null,
+          message: deduplicated ? 'PDF uploaded; its contents were already stored' : 'PDF uploaded successfully'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Abandon a session and discard the bytes received so far
+  router.delete('/:uploadId', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await chunkedUploadService.deleteSession(req.params.uploadId);
+      res.json({ success: true, message: 'Upload session deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
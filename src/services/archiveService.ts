@@ -0,0 +1,91 @@
+import path from 'path';
+import { ArchiveRequest, ImageArchiveRequest, StoredImage } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { ZipEntry } from '../utils/zipStream';
+import { StorageService } from './storageService';
+import { logger } from './logger';
+
+/**
+ * Resolves stored files and images into named ZIP entries.
+ * The archive itself is streamed by the routes with createZipStream.
+ */
+export class ArchiveService {
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * Every image rendered from a PDF, in page order, named `page_001.png` and so on.
+   * Pages rendered more than once get a numeric suffix, oldest first.
+   */
+  async getImageArchiveEntries(originalKey: string, request: ImageArchiveRequest): Promise<ZipEntry[]> {
+    const images = this.storageService.getImagesByOriginalKey(originalKey)
+      .filter(image => !request.pages || request.pages.includes(image.pageNumber))
+      .filter(image => !request.format || image.format === request.format)
+      .sort((a, b) => a.pageNumber - b.pageNumber || a.createdAt.getTime() - b.createdAt.getTime());
+
+    const available = await this.filterExisting(images);
+    if (available.length === 0) {
+      throw new NotFoundError(`No images found for key ${originalKey}`);
+    }
+
+    const digits = Math.max(3, String(available[available.length - 1].pageNumber).length);
+    const names = new Set<string>();
+    return available.map(image => ({
+      name: this.uniqueName(names, this.getPageImageName(image, digits)),
+      open: () => this.storageService.openObject(image.objectKey),
+      modifiedAt: image.createdAt
+    }));
+  }
+
+  /**
+   * Any mix of stored files and images. Files keep their original names and images are
+   * named after their page; clashing names get a numeric suffix.
+   */
+  async getArchiveEntries(request: ArchiveRequest): Promise<ZipEntry[]> {
+    const names = new Set<string>();
+    const entries: ZipEntry[] = [];
+
+    for (const key of request.fileKeys ?? []) {
+      const file = await this.storageService.getFile(key);
+      entries.push({
+        name: this.uniqueName(names, file.originalName),
+        open: () => this.storageService.openObject(file.objectKey),
+        modifiedAt: file.createdAt
+      });
+    }
+
+    for (const key of request.imageKeys ?? []) {
+      const image = await this.storageService.getImage(key);
+      entries.push({
+        name: this.uniqueName(names, this.getPageImageName(image, 3)),
+        open: () => this.storageService.openObject(image.objectKey),
+        modifiedAt: image.createdAt
+      });
+    }
+
+    return entries;
+  }
+
+  private getPageImageName(image: StoredImage, digits: number): string {
+    return `page_${String(image.pageNumber).padStart(digits, '0')}.${image.format}`;
+  }
+
+  // Appends _2, _3, ... before the extension until the name is unused
+  private uniqueName(used: Set<string>, name: string): string {
+    const { name: base, ext } = path.parse(name);
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) {
+      candidate = `${base}_${n}${ext}`;
+    }
+    used.add(candidate);
+    return candidate;
+  }
+
+  private async filterExisting(images: StoredImage[]): Promise<StoredImage[]> {
+    const exists = await Promise.all(images.map(image => this.storageService.objectExists(image.objectKey)));
+    const missing = images.filter((_, index) => !exists[index]);
+    if (missing.length > 0) {
+      logger.warn({ imageKeys: missing.map(image => image.key) }, 'Skipping images missing from storage in archive');
+    }
+    return images.filter((_, index) => exists[index]);
+  }
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import { Readable } from 'stream';
+import { FileUtils } from '../utils/fileUtils';
+import { NotFoundError } from '../utils/errors';
+import { writeUpload } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+test('puts, reads, stats and deletes an object on disk', async () => {
+  const store = new LocalBlobStore();
+  const upload = await writeUpload('%PDF-1.7 stored locally');
+  const source = `${upload.filePath}.incoming`;
+  await fs.rename(upload.filePath, source);
+  const objectKey = FileUtils.getObjectKey(upload.filePath);
+
+  await store.put(objectKey, source);
+  assert.equal(await FileUtils.fileExists(source), false);
+  assert.equal(store.getLocalPath(objectKey), upload.filePath);
+
+  assert.equal((await readAll(await store.getStream(objectKey))).toString(), '%PDF-1.7 stored locally');
+  assert.equal((await store.stat(objectKey))?.size, upload.size);
+
+  await store.delete(objectKey);
+  assert.equal(await store.stat(objectKey), undefined);
+  await assert.rejects(store.getStream(objectKey), NotFoundError);
+  await store.delete(objectKey);
+});
+
+test('keeps a file that is already in place', async () => {
+  const store = new LocalBlobStore();
+  const upload = await writeUpload('%PDF-1.7 in place');
+  const objectKey = FileUtils.getObjectKey(upload.filePath);
+
+  await store.put(objectKey, upload.filePath);
+
+  assert.equal(await fs.readFile(upload.filePath, 'utf8'), '%PDF-1.7 in place');
+  await store.delete(objectKey);
+});
@@ -0,0 +1,73 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { FileUtils } from '../utils/fileUtils';
+import { NotFoundError } from '../utils/errors';
+
+export interface BlobStat {
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * Where stored files and images are kept, addressed by backend-neutral object keys such as
+ * `uploads/<key>_report.pdf` (see FileUtils.getObjectKey). Files are always produced in the
+ * local data directories first and handed to put(), which takes ownership of them.
+ */
+export interface BlobStore {
+  // Stores a local file under the object key; the local file is moved or removed afterwards
+  put(objectKey: string, sourcePath: string, contentType: string): Promise<void>;
+  // Throws NotFoundError for a missing object
+  getStream(objectKey: string): Promise<Readable>;
+  // Succeeds for a missing object
+  delete(objectKey: string): Promise<void>;
+  // Undefined for a missing object
+  stat(objectKey: string): Promise<BlobStat | undefined>;
+  // The object's path on the local filesystem, for backends that keep one
+  getLocalPath?(objectKey: string): string;
+}
+
+/**
+ * Keeps objects in the data directories, so an object key maps straight to the file
+ * the upload or processing step already wrote.
+ */
+export class LocalBlobStore implements BlobStore {
+  async put(objectKey: string, sourcePath: string): Promise<void> {
+    const targetPath = this.getLocalPath(objectKey);
+    if (path.resolve(sourcePath) === targetPath) {
+      return;
+    }
+    try {
+      await fsp.rename(sourcePath, targetPath);
+    } catch (error) {
+      // Data directories may be on different volumes
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fsp.copyFile(sourcePath, targetPath);
+      await FileUtils.deleteFile(sourcePath);
+    }
+  }
+
+  async getStream(objectKey: string): Promise<Readable> {
+    const filePath = this.getLocalPath(objectKey);
+    if (!(await FileUtils.fileExists(filePath))) {
+      throw new NotFoundError(`Object ${objectKey} not found`);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(objectKey: string): Promise<void> {
+    await FileUtils.deleteFile(this.getLocalPath(objectKey));
+  }
+
+  async stat(objectKey: string): Promise<BlobStat | undefined> {
+    const stats = await fsp.stat(this.getLocalPath(objectKey)).catch(() => undefined);
+    return stats ? { size: stats.size, modifiedAt: stats.mtime } : undefined;
+  }
+
+  getLocalPath(objectKey: string): string {
+    return path.resolve(FileUtils.getObjectPath(objectKey));
+  }
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import { Readable } from 'stream';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { createTestDatabase } from '../test/helpers';
+import { ChunkedUploadService } from './chunkedUploadService';
+
+const contents = Buffer.from('%PDF-1.7 0123456789abcdefghijklmnopqrstuvwxyz');
+
+// A request body that delivers some bytes and then drops the connection
+function interruptedChunk(data: Buffer): Readable {
+  return Readable.from((async function* () {
+    yield data;
+    // The connection drops after the bytes have been written
+    await new Promise(resolve => setTimeout(resolve, 50));
+    throw new Error('aborted');
+  })());
+}
+
+test('keeps the bytes of an interrupted chunk and resumes from the stored offset after a restart', async () => {
+  const databaseService = createTestDatabase();
+  const uploads = new ChunkedUploadService(databaseService);
+  const session = await uploads.createSession({ filename: 'large.pdf', totalSize: contents.length });
+
+  await uploads.appendChunk(session.id, 0, Readable.from([contents.subarray(0, 10)]));
+  await assert.rejects(uploads.appendChunk(session.id, 10, interruptedChunk(contents.subarray(10, 25))), /aborted/);
+
+  const afterRestart = new ChunkedUploadService(databaseService);
+  const resumed = afterRestart.getSession(session.id);
+  assert.equal(resumed.offset, 25);
+
+  await afterRestart.appendChunk(session.id, resumed.offset, Readable.from([contents.subarray(resumed.offset)]));
+  const upload = await afterRestart.finalize(session.id);
+
+  assert.deepEqual(await fs.readFile(upload.filePath), contents);
+  assert.equal(upload.originalName, 'large.pdf');
+  assert.equal(afterRestart.getSession(session.id).fileKey, upload.key);
+  await fs.unlink(upload.filePath);
+});
+
+test('rejects chunks at the wrong offset, beyond the declared size or after completion', async () => {
+  const uploads = new ChunkedUploadService(createTestDatabase());
+  const session = await uploads.createSession({ filename: 'small.pdf', totalSize: 10 });
+
+  await assert.rejects(uploads.appendChunk(session.id, 5, Readable.from([Buffer.from('abc')])), ConflictError);
+  await assert.rejects(uploads.appendChunk(session.id, 0, Readable.from([Buffer.alloc(11)])), ValidationError);
+  assert.throws(() => uploads.getCompletedPartPath(session.id), ConflictError);
+
+  await uploads.appendChunk(session.id, 0, Readable.from([Buffer.alloc(10)]));
+  const upload = await uploads.finalize(session.id);
+  await assert.rejects(uploads.appendChunk(session.id, 10, Readable.from([Buffer.from('x')])), ConflictError);
+  await fs.unlink(upload.filePath);
+});
+
+test('expired sessions are hidden and swept with their part files', async () => {
+  const databaseService = createTestDatabase();
+  const uploads = new ChunkedUploadService(databaseService);
+  const session = await uploads.createSession({ filename: 'stale.pdf', totalSize: 10 });
+  databaseService.db.prepare('UPDATE upload_sessions SET expiresAt = ? WHERE id = ?')
+    .run(new Date(Date.now() - 1000).toISOString(), session.id);
+
+  assert.throws(() => uploads.getSession(session.id), NotFoundError);
+  assert.equal(await uploads.expireSessions(), 1);
+  assert.deepEqual(uploads.listActiveSessionIds(), []);
+});
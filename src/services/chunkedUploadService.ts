@@ -0,0 +1,239 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import Database from 'better-sqlite3';
+import { config } from '../config';
+import { UploadSession, UploadSessionRequest } from '../types';
+import { FileUtils } from '../utils/fileUtils';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { DatabaseService } from './databaseService';
+import { logger } from './logger';
+
+export interface FinalizedUpload {
+  key: string;
+  originalName: string;
+  fileName: string;
+  filePath: string;
+  size: number;
+}
+
+/**
+ * Resumable chunked uploads. Sessions are persisted in SQLite and their bytes in a part file,
+ * so a client can resume from the stored offset after a disconnect or a restart.
+ * Sessions that see no chunk for config.uploadSessionTtl are swept.
+ */
+export class ChunkedUploadService {
+  private db: Database.Database;
+  // Sessions with a chunk being written or being completed; concurrent requests would corrupt the part file
+  private writing = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(databaseService: DatabaseService) {
+    this.db = databaseService.db;
+  }
+
+  private rowToSession(row: any): UploadSession {
+    return {
+      id: row.id,
+      originalName: row.originalName,
+      totalSize: row.totalSize,
+      offset: row.bytesReceived,
+      status: row.status,
+      fileKey: row.fileKey ?? undefined,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      expiresAt: new Date(row.expiresAt),
+    };
+  }
+
+  start(): void {
+    this.running = true;
+    this.sweep();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async createSession(request: UploadSessionRequest): Promise<UploadSession> {
+    const id = FileUtils.generateKey();
+    const now = new Date();
+
+    await FileUtils.ensureDirectoryExists(config.uploadSessionsDir);
+    await fsp.writeFile(this.getPartPath(id), Buffer.alloc(0));
+
+    this.db.prepare(`
+      INSERT INTO upload_sessions (id, originalName, totalSize, bytesReceived, status, createdAt, updatedAt, expiresAt)
+      VALUES (?, ?, ?, 0, 'active', ?, ?, ?)
+    `).run(id, request.filename, request.totalSize, now.toISOString(), now.toISOString(), this.getExpiry(now).toISOString());
+
+    logger.info({ uploadId: id, totalSize: request.totalSize }, 'Chunked upload session created');
+    return this.getSession(id);
+  }
+
+  getSession(id: string): UploadSession {
+    const row = this.db.prepare('SELECT * FROM upload_sessions WHERE id = ?').get(id);
+    const session = row ? this.rowToSession(row) : undefined;
+    // Expired sessions are gone for clients even before the sweeper removes them
+    if (!session || session.expiresAt <= new Date()) {
+      throw new NotFoundError(`Upload session ${id} not found or expired`);
+    }
+    return session;
+  }
+
+  // IDs of sessions that still own a part file
+  listActiveSessionIds(): string[] {
+    const rows = this.db.prepare(`SELECT id FROM upload_sessions WHERE status = 'active'`).all() as { id: string }[];
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Writes a chunk that must start at the session's current offset. Bytes that arrive before
+   * a disconnect are kept, so the client resumes from whatever offset HEAD reports.
+   */
+  async appendChunk(id: string, offset: number, chunk: Readable): Promise<UploadSession> {
+    const session = this.getActiveSession(id);
+    if (this.writing.has(id)) {
+      throw new ConflictError(`A chunk is already being written to upload session ${id}`);
+    }
+    if (offset !== session.offset) {
+      throw new ConflictError(`Upload-Offset ${offset} does not match the current offset ${session.offset}`);
+    }
+
+    this.writing.add(id);
+    const output = fs.createWriteStream(this.getPartPath(id), { flags: 'r+', start: offset });
+    let received = offset;
+    const limiter = new Transform({
+      transform: (data: Buffer, _encoding, callback) => {
+        received += data.length;
+        if (received > session.totalSize) {
+          callback(new ValidationError(`Chunk exceeds the declared upload size of ${session.totalSize} bytes`));
+          return;
+        }
+        callback(null, data);
+      }
+    });
+
+    try {
+      await pipeline(chunk, limiter, output);
+    } finally {
+      // Only what reached the disk counts, whether or not the chunk arrived in full
+      this.recordOffset(id, offset + output.bytesWritten);
+      this.writing.delete(id);
+    }
+
+    return this.getSession(id);
+  }
+
+  /**
+   * Returns the part file of a session that has received all of its bytes.
+   */
+  getCompletedPartPath(id: string): string {
+    const session = this.getActiveSession(id);
+    if (session.offset !== session.totalSize) {
+      throw new ConflictError(`Upload is incomplete: ${session.offset} of ${session.totalSize} bytes received`);
+    }
+    return this.getPartPath(id);
+  }
+
+  /**
+   * Moves the part file into the upload directory under a new file key and marks the session completed.
+   * The session is kept until it expires, so a repeated completion can return the same key.
+   */
+  async finalize(id: string): Promise<FinalizedUpload> {
+    const partPath = this.getCompletedPartPath(id);
+    if (this.writing.has(id)) {
+      throw new ConflictError(`Upload session ${id} is already being completed`);
+    }
+    const session = this.getSession(id);
+    const key = FileUtils.generateKey();
+    const fileName = `${key}_${FileUtils.sanitizeFilename(session.originalName)}`;
+    const filePath = FileUtils.getUploadPath(fileName);
+
+    this.writing.add(id);
+    try {
+      await FileUtils.ensureDirectoryExists(config.uploadDir);
+      await fsp.rename(partPath, filePath);
+    } finally {
+      this.writing.delete(id);
+    }
+
+    this.db.prepare(`UPDATE upload_sessions SET status = 'completed', fileKey = ?, updatedAt = ? WHERE id = ?`)
+      .run(key, new Date().toISOString(), id);
+    logger.info({ uploadId: id, fileKey: key, size: session.totalSize }, 'Chunked upload completed');
+
+    return { key, originalName: session.originalName, fileName, filePath, size: session.totalSize };
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const session = this.getSession(id);
+    if (this.writing.has(id)) {
+      throw new ConflictError(`A chunk is still being written to upload session ${id}`);
+    }
+    this.db.prepare('DELETE FROM upload_sessions WHERE id = ?').run(id);
+    if (session.status === 'active') {
+      await FileUtils.deleteFile(this.getPartPath(id)).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Removes expired sessions and their part files.
+   */
+  async expireSessions(): Promise<number> {
+    const rows = this.db.prepare('SELECT * FROM upload_sessions WHERE expiresAt <= ?')
+      .all(new Date().toISOString())
+      .map(row => this.rowToSession(row))
+      .filter(session => !this.writing.has(session.id));
+
+    for (const session of rows) {
+      this.db.prepare('DELETE FROM upload_sessions WHERE id = ?').run(session.id);
+      if (session.status === 'active') {
+        await FileUtils.deleteFile(this.getPartPath(session.id)).catch(() => undefined);
+      }
+    }
+
+    if (rows.length > 0) {
+      logger.info({ count: rows.length }, 'Expired chunked upload sessions removed');
+    }
+    return rows.length;
+  }
+
+  private getActiveSession(id: string): UploadSession {
+    const session = this.getSession(id);
+    if (session.status !== 'active') {
+      throw new ConflictError(`Upload session ${id} is already completed as file ${session.fileKey}`);
+    }
+    return session;
+  }
+
+  private recordOffset(id: string, offset: number): void {
+    const now = new Date();
+    this.db.prepare('UPDATE upload_sessions SET bytesReceived = ?, updatedAt = ?, expiresAt = ? WHERE id = ?')
+      .run(offset, now.toISOString(), this.getExpiry(now).toISOString(), id);
+  }
+
+  private getExpiry(from: Date): Date {
+    return new Date(from.getTime() + config.uploadSessionTtl);
+  }
+
+  private getPartPath(id: string): string {
+    return path.join(config.uploadSessionsDir, `${id}.part`);
+  }
+
+  private sweep(): void {
+    this.expireSessions()
+      .catch(error => logger.error({ err: error }, 'Failed to expire chunked upload sessions'))
+      .finally(() => {
+        if (this.running) {
+          this.timer = setTimeout(() => this.sweep(), config.uploadSessionSweepInterval);
+        }
+      });
+  }
+}
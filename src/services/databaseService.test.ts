@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { config } from '../config';
+import { DatabaseService } from './databaseService';
+
+// The schema of the first release, which stored absolute file paths
+function createFirstReleaseDatabase(): DatabaseService {
+  const databaseService = new DatabaseService(':memory:');
+  databaseService.db.exec(`
+    CREATE TABLE files (
+      key TEXT PRIMARY KEY NOT NULL, originalName TEXT NOT NULL, fileName TEXT NOT NULL, filePath TEXT NOT NULL,
+      size INTEGER NOT NULL, mimeType TEXT NOT NULL, createdAt TEXT NOT NULL
+    );
+    CREATE TABLE images (
+      key TEXT PRIMARY KEY NOT NULL, originalPdfKey TEXT NOT NULL, originalName TEXT NOT NULL, fileName TEXT NOT NULL,
+      filePath TEXT NOT NULL, size INTEGER NOT NULL, mimeType TEXT NOT NULL, pageNumber INTEGER NOT NULL,
+      format TEXT NOT NULL, createdAt TEXT NOT NULL
+    );
+    CREATE TABLE pdf_processing_status (
+      key TEXT PRIMARY KEY NOT NULL, status TEXT NOT NULL, progress INTEGER, error TEXT, createdAt TEXT NOT NULL, completedAt TEXT
+    );
+  `);
+
+  const insertFile = databaseService.db.prepare(`INSERT INTO files VALUES (?, 'report.pdf', ?, ?, 100, 'application/pdf', '2024-01-01T00:00:00.000Z')`);
+  insertFile.run('original', 'original_report.pdf', path.join(config.uploadDir, 'original_report.pdf'));
+  insertFile.run('truncated', 'truncated_report.pdf', path.join(config.processedDir, 'truncated_report.pdf'));
+  insertFile.run('moved', 'moved_report.pdf', '/old/data/uploads/moved_report.pdf');
+  databaseService.db.prepare(`INSERT INTO images VALUES ('image', 'original', 'page_1.png', 'image_page_1.png', ?, 10, 'image/png', 1, 'png', '2024-01-01T00:00:00.000Z')`)
+    .run(path.join(config.imagesDir, 'image_page_1.png'));
+  databaseService.db.prepare(`INSERT INTO pdf_processing_status VALUES ('original', 'completed', 100, NULL, '2024-01-01T00:00:00.000Z', NULL)`).run();
+  return databaseService;
+}
+
+const columnsOf = (databaseService: DatabaseService, table: string) =>
+  (databaseService.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name);
+
+test('migrates first-release file paths to object keys', () => {
+  const databaseService = createFirstReleaseDatabase();
+
+  databaseService.init();
+
+  const files = databaseService.db.prepare('SELECT key, objectKey, kind, operation FROM files ORDER BY key').all();
+  assert.deepEqual(files, [
+    { key: 'moved', objectKey: 'uploads/moved_report.pdf', kind: 'original', operation: null },
+    { key: 'original', objectKey: 'uploads/original_report.pdf', kind: 'original', operation: null },
+    { key: 'truncated', objectKey: 'processed/truncated_report.pdf', kind: 'truncated', operation: 'truncate' }
+  ]);
+  assert.deepEqual(databaseService.db.prepare('SELECT objectKey FROM images').all(), [{ objectKey: 'images/image_page_1.png' }]);
+  assert.equal(columnsOf(databaseService, 'files').includes('filePath'), false);
+  assert.equal(columnsOf(databaseService, 'images').includes('filePath'), false);
+  assert.deepEqual(databaseService.db.prepare('SELECT id, key, status FROM pdf_processing_status').all(), [
+    { id: 'original', key: 'original', status: 'completed' }
+  ]);
+});
+
+test('initializing a migrated database again changes nothing', () => {
+  const databaseService = createFirstReleaseDatabase();
+  databaseService.init();
+  const before = databaseService.db.prepare('SELECT * FROM files ORDER BY key').all();
+
+  databaseService.init();
+
+  assert.deepEqual(databaseService.db.prepare('SELECT * FROM files ORDER BY key').all(), before);
+});
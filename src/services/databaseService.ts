@@ -1,5 +1,7 @@
 import Database from 'better-sqlite3';
+import path from 'path';
 import { config } from '../config';
+import { FileUtils } from '../utils/fileUtils';
 import { logger } from './logger';
 
 export class DatabaseService {
@@ -25,13 +27,53 @@ export class DatabaseService {
         key TEXT PRIMARY KEY NOT NULL,
         originalName TEXT NOT NULL,
         fileName TEXT NOT NULL,
-        filePath TEXT NOT NULL,
+        objectKey TEXT NOT NULL,
         size INTEGER NOT NULL,
         mimeType TEXT NOT NULL,
-        createdAt TEXT NOT NULL
+        sha256 TEXT,
+        kind TEXT NOT NULL DEFAULT 'original',
+        parentKey TEXT,
+        operation TEXT,
+        pageCount INTEGER,
+        pdfVersion TEXT,
+        isEncrypted INTEGER,
+        isTagged INTEGER,
+        hasForms INTEGER,
+        documentInfo TEXT,
+        createdAt TEXT NOT NULL,
+        expiresAt TEXT
       );
     `);
 
+    // Lineage columns were added after the first release; older databases need them added in place.
+    // Files in the processed directory can only have come from a truncation.
+    this.addColumnIfMissing('files', 'parentKey', 'TEXT');
+    this.addColumnIfMissing('files', 'operation', 'TEXT');
+    if (this.addColumnIfMissing('files', 'kind', `TEXT NOT NULL DEFAULT 'original'`)) {
+      this.db.prepare(`UPDATE files SET kind = 'truncated', operation = 'truncate' WHERE filePath LIKE ?`)
+        .run(`${config.processedDir}%`);
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_files_parentKey ON files (parentKey);');
+
+    // PDF summary columns. Rows stored before they existed are filled in lazily by GET /info.
+    this.addColumnIfMissing('files', 'pageCount', 'INTEGER');
+    this.addColumnIfMissing('files', 'pdfVersion', 'TEXT');
+    this.addColumnIfMissing('files', 'isEncrypted', 'INTEGER');
+    this.addColumnIfMissing('files', 'isTagged', 'INTEGER');
+    this.addColumnIfMissing('files', 'hasForms', 'INTEGER');
+    this.addColumnIfMissing('files', 'documentInfo', 'TEXT');
+
+    // Retention. Files stored before expiry existed keep a NULL expiresAt and are never swept.
+    this.addColumnIfMissing('files', 'expiresAt', 'TEXT');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_files_expiresAt ON files (expiresAt);');
+
+    // Blob storage. Must run after the kind backfill above, which still matches on filePath.
+    this.migrateFilePathColumn('files');
+
+    // Content hashes. Files stored before they existed keep a NULL sha256 and are never deduplicated or cached.
+    this.addColumnIfMissing('files', 'sha256', 'TEXT');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_files_sha256 ON files (sha256);');
+
     // Create a table for generated images
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS images (
@@ -39,7 +81,7 @@ export class DatabaseService {
         originalPdfKey TEXT NOT NULL,
         originalName TEXT NOT NULL,
         fileName TEXT NOT NULL,
-        filePath TEXT NOT NULL,
+        objectKey TEXT NOT NULL,
         size INTEGER NOT NULL,
         mimeType TEXT NOT NULL,
         pageNumber INTEGER NOT NULL,
@@ -50,30 +92,184 @@ export class DatabaseService {
     `);
     // ON DELETE CASCADE ensures that if a PDF is deleted from the 'files' table,
     // all its associated images are automatically deleted from this 'images' table.
+    this.migrateFilePathColumn('images');
 
-    // Create tables for processing statuses to avoid conflicts
+    // Create tables for processing statuses to avoid conflicts.
+    // Every truncation or conversion run gets its own row, so the history of a source key is kept.
+    this.migrateLegacyStatusTable('pdf_processing_status');
+    this.migrateLegacyStatusTable('image_processing_status');
+    this.createStatusTable('pdf_processing_status');
+    this.createStatusTable('image_processing_status');
+
+    // Create a table for the background job queue. Payloads and results are stored as JSON.
     this.db.exec(`
-      CREATE TABLE IF NOT EXISTS pdf_processing_status (
-        key TEXT PRIMARY KEY NOT NULL,
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY NOT NULL,
+        type TEXT NOT NULL,
         status TEXT NOT NULL,
-        progress INTEGER,
+        sourceKey TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        callbackUrl TEXT,
+        result TEXT,
         error TEXT,
+        progress INTEGER NOT NULL DEFAULT 0,
+        attempts INTEGER NOT NULL DEFAULT 0,
         createdAt TEXT NOT NULL,
+        startedAt TEXT,
         completedAt TEXT
       );
     `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status_createdAt ON jobs (status, createdAt);');
+    this.addColumnIfMissing('jobs', 'callbackUrl', 'TEXT');
+    this.addColumnIfMissing('jobs', 'hasPassword', 'INTEGER NOT NULL DEFAULT 0');
 
+    // Create tables for webhook callbacks: one delivery per finished job, one row per HTTP attempt
     this.db.exec(`
-      CREATE TABLE IF NOT EXISTS image_processing_status (
-        key TEXT PRIMARY KEY NOT NULL,
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY NOT NULL,
+        jobId TEXT NOT NULL,
+        url TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
         status TEXT NOT NULL,
-        progress INTEGER,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        nextAttemptAt TEXT,
+        lastError TEXT,
+        createdAt TEXT NOT NULL,
+        deliveredAt TEXT
+      );
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next ON webhook_deliveries (status, nextAttemptAt);');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_attempts (
+        id TEXT PRIMARY KEY NOT NULL,
+        deliveryId TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        responseStatus INTEGER,
         error TEXT,
+        durationMs INTEGER NOT NULL,
         createdAt TEXT NOT NULL,
-        completedAt TEXT
+        FOREIGN KEY (deliveryId) REFERENCES webhook_deliveries (id) ON DELETE CASCADE
+      );
+    `);
+
+    // Resumable chunked uploads; the bytes received so far are kept in a part file per session
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS upload_sessions (
+        id TEXT PRIMARY KEY NOT NULL,
+        originalName TEXT NOT NULL,
+        totalSize INTEGER NOT NULL,
+        bytesReceived INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL,
+        fileKey TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        expiresAt TEXT NOT NULL
+      );
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_upload_sessions_expiresAt ON upload_sessions (expiresAt);');
+
+    // Create a table for cached derivations: the outputs of a truncation or conversion, keyed by
+    // the SHA-256 of the source and the normalized request (JSON with sorted keys)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS derivation_cache (
+        sourceHash TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        request TEXT NOT NULL,
+        outputKeys TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT NOT NULL,
+        lastHitAt TEXT,
+        PRIMARY KEY (sourceHash, operation, request)
       );
     `);
     
     logger.info('Database schema initialized successfully.');
   }
+
+  /**
+   * Adds a column to an existing table if it is not there yet.
+   * Returns true when the column was added.
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): boolean {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.some(existing => existing.name === column)) {
+      return false;
+    }
+    this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    logger.info({ table, column }, 'Added missing database column');
+    return true;
+  }
+
+  /**
+   * Older databases stored the absolute path of each file. Replace it with the object key the
+   * blob store uses, derived from the path; the files themselves stay where they are.
+   */
+  private migrateFilePathColumn(table: 'files' | 'images'): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(column => column.name === 'filePath')) {
+      return;
+    }
+
+    logger.info({ table }, 'Migrating file paths to blob object keys...');
+    this.db.transaction(() => {
+      this.addColumnIfMissing(table, 'objectKey', `TEXT NOT NULL DEFAULT ''`);
+      const rows = this.db.prepare(`SELECT key, filePath FROM ${table}`).all() as { key: string; filePath: string }[];
+      const update = this.db.prepare(`UPDATE ${table} SET objectKey = ? WHERE key = ?`);
+      for (const row of rows) {
+        let objectKey: string;
+        try {
+          objectKey = FileUtils.getObjectKey(row.filePath);
+        } catch {
+          // The data directories were moved since the row was written; reconciliation reports it if the file is gone
+          objectKey = `${table === 'images' ? 'images' : 'uploads'}/${path.basename(row.filePath)}`;
+          logger.warn({ table, key: row.key, filePath: row.filePath, objectKey }, 'File path outside the data directories');
+        }
+        update.run(objectKey, row.key);
+      }
+      this.db.exec(`ALTER TABLE ${table} DROP COLUMN filePath;`);
+    })();
+  }
+
+  private createStatusTable(table: string): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id TEXT PRIMARY KEY NOT NULL,
+        key TEXT NOT NULL,
+        jobId TEXT,
+        request TEXT,
+        outputKeys TEXT,
+        status TEXT NOT NULL,
+        progress INTEGER,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        completedAt TEXT,
+        durationMs INTEGER
+      );
+    `);
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${table}_key_createdAt ON ${table} (key, createdAt);`);
+  }
+
+  /**
+   * Older databases keyed status tables by the original PDF key (one row per key).
+   * Rebuild them with the per-run layout, keeping the existing rows as the first run of each key.
+   */
+  private migrateLegacyStatusTable(table: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.length === 0 || columns.some(column => column.name === 'id')) {
+      return;
+    }
+
+    logger.info({ table }, 'Migrating legacy processing status table to per-run records...');
+    this.db.transaction(() => {
+      this.db.exec(`ALTER TABLE ${table} RENAME TO ${table}_legacy;`);
+      this.createStatusTable(table);
+      this.db.exec(`
+        INSERT INTO ${table} (id, key, status, progress, error, createdAt, completedAt)
+        SELECT key, key, status, progress, error, createdAt, completedAt FROM ${table}_legacy;
+      `);
+      this.db.exec(`DROP TABLE ${table}_legacy;`);
+    })();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import Database from 'better-sqlite3';
+import { config } from '../config';
+import { StoredFile } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { DatabaseService } from './databaseService';
+import { StorageService } from './storageService';
+import { logger } from './logger';
+
+// Operations whose outputs are cached; truncation outputs are files, conversion outputs images
+export type DerivationOperation = 'truncate' | 'convert';
+
+/**
+ * Remembers the outputs of truncations and conversions by the SHA-256 of the source and the
+ * normalized request, so repeating a request on the same content (under any key) reuses the
+ * earlier outputs instead of running pdf-lib or Poppler again. Callers give each requester its own
+ * rows over the outputs' objects rather than handing out the cached keys.
+ *
+ * Entries are checked on every lookup and dropped once one of their outputs is deleted or expired.
+ * Encrypted sources are never cached, so their password is always checked.
+ */
+export class DerivationCacheService {
+  private db: Database.Database;
+
+  constructor(
+    databaseService: DatabaseService,
+    private storageService: StorageService
+  ) {
+    this.db = databaseService.db;
+  }
+
+  // Output keys of an earlier identical request, or undefined when there is none that is still intact
+  async find(operation: DerivationOperation, source: StoredFile, request: object): Promise<string[] | undefined> {
+    const sourceHash = this.getSourceHash(source);
+    if (!sourceHash) {
+      return undefined;
+    }
+
+    const requestKey = DerivationCacheService.normalize(request);
+    const row = this.db.prepare(`
+      SELECT outputKeys FROM derivation_cache WHERE sourceHash = ? AND operation = ? AND request = ?
+    `).get(sourceHash, operation, requestKey) as { outputKeys: string } | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    const outputKeys: string[] = JSON.parse(row.outputKeys);
+    if (!(await this.outputsAvailable(operation, outputKeys))) {
+      this.db.prepare('DELETE FROM derivation_cache WHERE sourceHash = ? AND operation = ? AND request = ?')
+        .run(sourceHash, operation, requestKey);
+      logger.info({ sourceKey: source.key, operation, request: requestKey }, 'Dropped cached derivation whose outputs are gone');
+      return undefined;
+    }
+
+    this.db.prepare(`
+      UPDATE derivation_cache SET hits = hits + 1, lastHitAt = ? WHERE sourceHash = ? AND operation = ? AND request = ?
+    `).run(new Date().toISOString(), sourceHash, operation, requestKey);
+    logger.info({ sourceKey: source.key, operation, request: requestKey, outputKeys }, 'Reusing cached derivation');
+    return outputKeys;
+  }
+
+  record(operation: DerivationOperation, source: StoredFile, request: object, outputKeys: string[]): void {
+    const sourceHash = this.getSourceHash(source);
+    if (!sourceHash) {
+      return;
+    }
+
+    // A newer run replaces an entry whose outputs were found to be gone
+    this.db.prepare(`
+      INSERT OR REPLACE INTO derivation_cache (sourceHash, operation, request, outputKeys, hits, createdAt)
+      VALUES (?, ?, ?, ?, 0, ?)
+    `).run(sourceHash, operation, DerivationCacheService.normalize(request), JSON.stringify(outputKeys), new Date().toISOString());
+  }
+
+  // The hash to key a source by, or undefined when it must not be cached
+  private getSourceHash(source: StoredFile): string | undefined {
+    // Files without a summary have not been checked for encryption yet
+    if (!config.derivationCache || !source.sha256 || source.pdfSummary?.isEncrypted !== false) {
+      return undefined;
+    }
+    return source.sha256;
+  }
+
+  private async outputsAvailable(operation: DerivationOperation, outputKeys: string[]): Promise<boolean> {
+    const now = new Date();
+    try {
+      for (const key of outputKeys) {
+        if (operation === 'truncate') {
+          const file = await this.storageService.getFile(key);
+          if (file.expiresAt && file.expiresAt <= now) {
+            return false;
+          }
+        } else {
+          await this.storageService.getImage(key);
+        }
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // JSON with object keys sorted and undefined values left out, so equal requests give equal strings
+  private static normalize(value: unknown): string {
+    const sortKeys = (item: unknown): unknown => {
+      if (Array.isArray(item)) {
+        return item.map(sortKeys);
+      }
+      if (item && typeof item === 'object') {
+        return Object.fromEntries(
+          Object.keys(item).sort()
+            .filter(key => (item as Record<string, unknown>)[key] !== undefined)
+            .map(key => [key, sortKeys((item as Record<string, unknown>)[key])])
+        );
+      }
+      return item;
+    };
+    return JSON.stringify(sortKeys(value));
+  }
+}
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { Job, ProcessingKind, ProcessingStatus } from '../types';
+import { UploadProgress } from './uploadProgressService';
+
+export interface StreamEvent {
+  id: string;
+  seq: number;
+  event: string;
+  data: unknown;
+  // The last event of a stream; subscribers close after it
+  terminal: boolean;
+}
+
+type StreamListener = (event: StreamEvent) => void;
+
+interface Topic {
+  events: StreamEvent[];
+  listeners: Set<StreamListener>;
+  // Events up to this sequence number were dropped from the buffer and cannot be replayed
+  droppedThrough: number;
+  updatedAt: number;
+}
+
+const PRUNE_INTERVAL = 60 * 1000;
+
+// Failures are sent as 'failed' because EventSource reserves 'error' for connection errors
+export const streamEventFor = (status: string): string =>
+  status === 'error' ? 'failed' : status;
+
+/**
+ * In-memory pub/sub behind the Server-Sent Events routes. Every topic (`upload:<id>`, `job:<id>`,
+ * `file:<key>`) keeps a bounded buffer of recent events so a client reconnecting with Last-Event-ID
+ * gets what it missed. Event IDs are `<boot id>-<sequence>`, so IDs from before a restart are
+ * recognised as not replayable.
+ */
+export class EventStreamService {
+  private topics = new Map<string, Topic>();
+  // Ends the response of every open subscription, keyed by its listener
+  private closers = new Map<StreamListener, () => void>();
+  private readonly bootId = crypto.randomBytes(4).toString('hex');
+  private sequence = 0;
+  private timer?: NodeJS.Timeout;
+
+  static uploadTopic(uploadId: string): string {
+    return `upload:${uploadId}`;
+  }
+
+  static jobTopic(jobId: string): string {
+    return `job:${jobId}`;
+  }
+
+  static fileTopic(key: string): string {
+    return `file:${key}`;
+  }
+
+  start(): void {
+    this.timer = setInterval(() => this.pruneIdleTopics(), PRUNE_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  publish(topicName: string, event: string, data: unknown, terminal: boolean = false): StreamEvent {
+    const topic = this.getOrCreateTopic(topicName);
+    const streamEvent = this.createEvent(event, data, terminal);
+
+    topic.events.push(streamEvent);
+    if (topic.events.length > config.sseBufferSize) {
+      topic.droppedThrough = topic.events.shift()!.seq;
+    }
+    topic.updatedAt = Date.now();
+
+    for (const listener of topic.listeners) {
+      listener(streamEvent);
+    }
+    return streamEvent;
+  }
+
+  // An event that is not buffered, such as the snapshot a new subscriber starts with
+  createEvent(event: string, data: unknown, terminal: boolean = false): StreamEvent {
+    const seq = ++this.sequence;
+    return { id: `${this.bootId}-${seq}`, seq, event, data, terminal };
+  }
+
+  /**
+   * Buffered events of a topic after the given event ID, or undefined when the ID comes from
+   * another process or points at events that were already dropped.
+   */
+  eventsSince(topicName: string, lastEventId: string): StreamEvent[] | undefined {
+    const [bootId, seqText] = lastEventId.split('-');
+    const lastSeq = Number(seqText);
+    if (bootId !== this.bootId || !Number.isInteger(lastSeq)) {
+      return undefined;
+    }
+
+    const topic = this.topics.get(topicName);
+    if (!topic || lastSeq < topic.droppedThrough) {
+      return undefined;
+    }
+    return topic.events.filter(event => event.seq > lastSeq);
+  }
+
+  /**
+   * Adds a listener to a topic and returns the function that removes it. `close` ends the
+   * subscriber's response; closeAll calls it on shutdown.
+   */
+  subscribe(topicName: string, listener: StreamListener, close?: () => void): () => void {
+    const topic = this.getOrCreateTopic(topicName);
+    topic.listeners.add(listener);
+    if (close) {
+      this.closers.set(listener, close);
+    }
+    return () => {
+      topic.listeners.delete(listener);
+      this.closers.delete(listener);
+    };
+  }
+
+  // Ends every open stream, so that a shutting down server is not kept waiting on them
+  closeAll(): void {
+    for (const close of [...this.closers.values()]) {
+      close();
+    }
+  }
+
+  publishUploadProgress(uploadId: string, progress: UploadProgress): void {
+    const finished = progress.status === 'completed' || progress.status === 'error';
+    this.publish(EventStreamService.uploadTopic(uploadId), finished ? streamEventFor(progress.status) : 'progress', progress, finished);
+  }
+
+  publishJobProgress(job: Job): void {
+    const data = EventStreamService.describeJob(job);
+    this.publish(EventStreamService.jobTopic(job.id), 'progress', data);
+    this.publish(EventStreamService.fileTopic(job.sourceKey), 'progress', data);
+  }
+
+  /**
+   * Ends the job's stream. The file's stream ends too once the key has no other active jobs.
+   */
+  publishJobFinished(job: Job, keyIdle: boolean): void {
+    const event = streamEventFor(job.status);
+    const data = EventStreamService.describeJob(job);
+    this.publish(EventStreamService.jobTopic(job.id), event, data, true);
+    this.publish(EventStreamService.fileTopic(job.sourceKey), event, data, keyIdle);
+  }
+
+  publishProcessingStatus(status: ProcessingStatus, kind: ProcessingKind): void {
+    const data = { kind, ...status };
+    if (status.jobId) {
+      this.publish(EventStreamService.jobTopic(status.jobId), 'status', data);
+    }
+    this.publish(EventStreamService.fileTopic(status.key), 'status', data);
+  }
+
+  static describeJob(job: Job) {
+    return {
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      progress: job.progress,
+      sourceKey: job.sourceKey,
+      result: job.result ?? null,
+      error: job.error ?? null
+    };
+  }
+
+  private getOrCreateTopic(topicName: string): Topic {
+    let topic = this.topics.get(topicName);
+    if (!topic) {
+      // A new (or pruned and recreated) topic cannot replay anything published before it existed
+      topic = { events: [], listeners: new Set(), droppedThrough: this.sequence, updatedAt: Date.now() };
+      this.topics.set(topicName, topic);
+    }
+    return topic;
+  }
+
+  // Topics nobody listens to are forgotten once they have been quiet for the retention period
+  private pruneIdleTopics(): void {
+    const cutoff = Date.now() - config.sseRetention;
+    for (const [name, topic] of this.topics) {
+      if (topic.listeners.size === 0 && topic.updatedAt < cutoff) {
+        this.topics.delete(name);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument, PageSizes, degrees } from 'pdf-lib';
+import { config } from '../config';
+import { ValidationError } from '../utils/errors';
+import { createTestDatabase, writeUpload } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+import { DerivationCacheService } from './derivationCacheService';
+import { ImageService } from './imageService';
+import { PdfDecryptionService } from './pdfDecryptionService';
+import { StorageService } from './storageService';
+
+async function setUp() {
+  const databaseService = createTestDatabase();
+  const storageService = new StorageService(databaseService, new LocalBlobStore());
+  const imageService = new ImageService(
+    storageService,
+    new PdfDecryptionService(storageService),
+    new DerivationCacheService(databaseService, storageService)
+  );
+
+  // An A4 portrait page and a rotated letter page
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage(PageSizes.A4);
+  pdfDoc.addPage(PageSizes.Letter).setRotation(degrees(90));
+  const upload = await writeUpload(Buffer.from(await pdfDoc.save()));
+  const file = await storageService.storeFile(upload.key, 'test.pdf', upload.fileName, upload.filePath, upload.size, 'application/pdf');
+  return { imageService, file };
+}
+
+const exceedsBudget = (page: number) => (error: unknown) =>
+  error instanceof ValidationError && error.message.startsWith(`Page ${page} would render at `) &&
+  error.message.includes(`more than the limit of ${config.maxRenderPixels}`);
+
+test('accepts renders within the pixel budget', async () => {
+  const { imageService, file } = await setUp();
+
+  await imageService.assertRenderSizeAllowed(file, { dpi: 600 });
+  await imageService.assertRenderSizeAllowed(file, { scale: 5 });
+  await imageService.assertRenderSizeAllowed(file, { width: 5000, height: 5000, pages: [1] });
+});
+
+test('rejects a dpi that renders a page above the pixel budget', async () => {
+  const { imageService, file } = await setUp();
+
+  // A4 at 1200 dpi is 9922x14031 pixels
+  await assert.rejects(imageService.assertRenderSizeAllowed(file, { dpi: 1200 }), exceedsBudget(1));
+  await assert.rejects(imageService.assertRenderSizeAllowed(file, { dpi: 1200, pages: [2] }), exceedsBudget(2));
+});
+
+test('counts only the requested region of a page', async () => {
+  const { imageService, file } = await setUp();
+
+  await imageService.assertRenderSizeAllowed(file, { dpi: 1200, region: { x: 0, y: 0, width: 2000, height: 2000 } });
+  await assert.rejects(
+    imageService.assertRenderSizeAllowed(file, { dpi: 1200, region: { x: 0, y: 0, width: 9000, height: 9000 } }),
+    exceedsBudget(1)
+  );
+});
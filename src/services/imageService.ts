@@ -1,152 +1,432 @@
 import fs from 'fs/promises';
 import path from 'path';
-// No change to this import
 import { Poppler } from 'node-poppler';
-import { PDFDocument } from 'pdf-lib';
-import { ImageConversionRequest, ImageKeys, StoredImage } from '../types';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import {
+  ImageConversionRequest,
+  ImageKeys,
+  StoredImage,
+  StoredFile,
+  ProcessingOptions,
+  PageSelection,
+  PageText,
+  TextExtractionRequest,
+  TextExtractionResult
+} from '../types';
+import { config } from '../config';
 import { FileUtils } from '../utils/fileUtils';
 import { ProcessingError, ValidationError, NotFoundError } from '../utils/errors';
+import { parseBoundingBoxXhtml } from '../utils/pdfTextParser';
 import { StorageService } from './storageService';
+import { PdfDecryptionService } from './pdfDecryptionService';
+import { DerivationCacheService } from './derivationCacheService';
+import { getPoppler } from './poppler';
+import { logger } from './logger';
 
 export class ImageService {
-  private poppler: Poppler;
+  // Renders in progress, so concurrent requests for one thumbnail share a single pdftocairo run
+  private pendingThumbnails = new Map<string, Promise<string>>();
 
-  constructor(private storageService: StorageService) {
-    // Check for an environment variable specifying the Poppler binary path.
-    // This makes the code adaptable to different environments.
-    const popplerBinPath = process.env.POPPLER_BIN_PATH_WINDOWS;
+  constructor(
+    private storageService: StorageService,
+    private decryptionService: PdfDecryptionService,
+    private derivationCache: DerivationCacheService
+  ) {}
 
-    if (popplerBinPath) {
-      console.log(`Using custom Poppler path: ${popplerBinPath}`);
-      this.poppler = new Poppler(popplerBinPath);
-    } else {
-      console.log('Using Poppler from system PATH.');
-      this.poppler = new Poppler();
-    }
+  // Resolved on first use, like in PdfDecryptionService
+  private get poppler(): Poppler {
+    return getPoppler();
   }
 
   async processPdfToImages(
     originalKey: string,
-    request: ImageConversionRequest
+    request: ImageConversionRequest,
+    options: ProcessingOptions = {}
   ): Promise<ImageKeys> {
+    let statusId: string | undefined;
     try {
-      // Set initial processing status
-      await this.storageService.setImageProcessingStatus(originalKey, {
-        status: 'processing',
-        progress: 0,
-        createdAt: new Date()
+      // Record a new processing run for this source key
+      const run = await this.storageService.createImageProcessingStatus(originalKey, {
+        jobId: options.jobId,
+        request
       });
+      statusId = run.id;
 
       const originalFile = await this.storageService.getFile(originalKey);
+
+      // The same pages of the same content may have been rendered with these options before
+      if (originalFile.pdfSummary) {
+        const cacheRequest = this.getCacheRequest(request, this.getPageIndices(request, originalFile.pdfSummary.pageCount));
+        const cachedKeys = await this.derivationCache.find('convert', originalFile, cacheRequest);
+        // The cached images may belong to another upload, so they are listed again under this source.
+        // They can be deleted after the lookup; the pages are then rendered again.
+        const images = cachedKeys && this.storageService.shareImages(cachedKeys, originalKey);
+        if (images) {
+          const imageKeys = images.map(image => image.key);
+          await this.storageService.updateImageProcessingStatus(run.id, {
+            status: 'completed',
+            progress: 100,
+            outputKeys: imageKeys,
+            completedAt: new Date()
+          });
+          options.onProgress?.(100);
+          return { originalKey, imageKeys, pageCount: imageKeys.length, cached: true };
+        }
+      }
       
       // Load the original PDF to get page count
-      const pdfBytes = await fs.readFile(originalFile.filePath);
-      const pdfDoc = await PDFDocument.load(pdfBytes);
+      const pdfBytes = await this.storageService.readObject(originalFile.objectKey);
+      const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
       const totalPages = pdfDoc.getPageCount();
+
+      // Poppler renders encrypted files itself once it has the password
+      if (pdfDoc.isEncrypted) {
+        await this.storageService.withLocalFile(originalFile.objectKey, filePath =>
+          this.decryptionService.verifyPassword(filePath, options.password)
+        );
+      }
+      const passwordOptions = this.decryptionService.getPasswordOptions(options.password);
       
       // Validate and get page indices
       const pagesToConvert = this.getPageIndices(request, totalPages);
-      
-      await this.storageService.updateImageProcessingStatus(originalKey, {
-        status: 'processing',
-        progress: 25
-      });
+      this.assertRenderSize(request, pdfDoc, pagesToConvert);
+
+      // Pages render concurrently; each one that finishes moves the run's progress forward
+      let pagesDone = 0;
+      const reportPageDone = async () => {
+        pagesDone++;
+        const progress = Math.round((pagesDone / pagesToConvert.length) * 100);
+        await this.storageService.updateImageProcessingStatus(run.id, { status: 'processing', progress });
+        options.onProgress?.(progress);
+      };
 
       // Prepare conversion options
       const outputDir = FileUtils.getImagesDir();
       await FileUtils.ensureDirectoryExists(outputDir);
       
-      const conversionPromises = pagesToConvert.map(async (pageIndex, index) => {
-        const pageNumber = pageIndex + 1; // Convert back to 1-based
-        const imageKey = FileUtils.generateKey();
+      // Poppler reads the source from disk, so every page renders from one local copy
+      const imageKeys = await this.storageService.withLocalFile(originalFile.objectKey, sourcePath =>
+        Promise.all(pagesToConvert.map(async (pageIndex) => {
+          const pageNumber = pageIndex + 1; // Convert back to 1-based
+          const imageKey = FileUtils.generateKey();
         
-        // Define the output file prefix for Poppler
-        const outputFilePrefix = path.join(outputDir, `${imageKey}_page_${pageNumber}`);
-
-        // Convert single page to image
-        const options = {
-          firstPageToConvert: pageNumber,
-          lastPageToConvert: pageNumber,
-          pngFile: request.format === 'png' || !request.format,
-          jpegFile: request.format === 'jpeg',
-          tiffFile: request.format === 'tiff',
-          scalePageTo: request.scale ? Math.round((request.scale || 1) * 1024) : 1024
-        };
+          // Define the output file prefix for Poppler
+          const outputFilePrefix = path.join(outputDir, `${imageKey}_page_${pageNumber}`);
 
-        try {
-          // Run the conversion. We will ignore the return value as it proved unreliable.
-          await this.poppler.pdfToCairo(originalFile.filePath, outputFilePrefix, options);
-          
-          // FIX: Poppler consistently creates a filename with a page number suffix.
-          // We will manually find this file by searching the directory for a file
-          // that starts with our unique prefix.
-          const files = await fs.readdir(outputDir);
-          const createdFile = files.find(f => f.startsWith(`${imageKey}_page_${pageNumber}`));
-
-          if (!createdFile) {
-            throw new ProcessingError(`Poppler created an image, but the output file could not be found for key ${imageKey}.`);
-          }
+          // Convert single page to image
+          const options = {
+            firstPageToConvert: pageNumber,
+            lastPageToConvert: pageNumber,
+            ...this.getRenderOptions(request, pdfDoc.getPage(pageIndex)),
+            ...passwordOptions
+          };
 
-          const actualOutputPath = path.join(outputDir, createdFile);
-          const actualFileName = createdFile;
-          const stats = await FileUtils.getFileStats(actualOutputPath);
+          try {
+            // Run the conversion. We will ignore the return value as it proved unreliable.
+            await this.poppler.pdfToCairo(sourcePath, outputFilePrefix, options);
           
-          // Store image info using the correct details found from the file system
-          const storedImage: StoredImage = {
-            key: imageKey,
-            originalPdfKey: originalKey,
-            originalName: `page_${pageNumber}.${request.format || 'png'}`,
-            fileName: actualFileName,
-            filePath: actualOutputPath,
-            size: stats.size,
-            mimeType: this.getMimeType(request.format || 'png'),
-            pageNumber,
-            format: request.format || 'png',
-            createdAt: new Date()
-          };
+            // FIX: Poppler consistently creates a filename with a page number suffix.
+            // We will manually find this file by searching the directory for a file
+            // that starts with our unique prefix.
+            const files = await fs.readdir(outputDir);
+            const createdFile = files.find(f => f.startsWith(`${imageKey}_page_${pageNumber}`));
 
-          await this.storageService.storeImage(imageKey, storedImage);
-          return imageKey;
-        } catch (error) {
-          console.error(`Failed to convert page ${pageNumber}:`, error);
-          throw new ProcessingError(`Failed to convert page ${pageNumber} to image`);
-        }
-      });
+            if (!createdFile) {
+              throw new ProcessingError(`Poppler created an image, but the output file could not be found for key ${imageKey}.`);
+            }
 
-      await this.storageService.updateImageProcessingStatus(originalKey, {
-        status: 'processing',
-        progress: 75
-      });
+            const actualOutputPath = path.join(outputDir, createdFile);
+            const actualFileName = createdFile;
+            const stats = await FileUtils.getFileStats(actualOutputPath);
+          
+            // Store image info using the correct details found from the file system; the file moves to the blob store
+            await this.storageService.storeImage(imageKey, {
+              key: imageKey,
+              originalPdfKey: originalKey,
+              originalName: `page_${pageNumber}.${request.format || 'png'}`,
+              fileName: actualFileName,
+              size: stats.size,
+              mimeType: this.getMimeType(request.format || 'png'),
+              pageNumber,
+              format: request.format || 'png',
+              createdAt: new Date()
+            }, actualOutputPath);
+            await reportPageDone();
+            return imageKey;
+          } catch (error) {
+            logger.error({ err: error, fileKey: originalKey, pageNumber }, 'Failed to convert page to image');
+            throw new ProcessingError(`Failed to convert page ${pageNumber} to image`);
+          }
+        }))
+      );
 
-      // Wait for all conversions to complete
-      const imageKeys = await Promise.all(conversionPromises);
+      this.derivationCache.record('convert', originalFile, this.getCacheRequest(request, pagesToConvert), imageKeys);
 
       // Update processing status to completed
-      await this.storageService.updateImageProcessingStatus(originalKey, {
+      await this.storageService.updateImageProcessingStatus(run.id, {
         status: 'completed',
         progress: 100,
+        outputKeys: imageKeys,
         completedAt: new Date()
       });
 
       return {
         originalKey,
-        imageKeys
+        imageKeys,
+        pageCount: imageKeys.length
       };
 
     } catch (error) {
       // Update processing status to error
-      await this.storageService.updateImageProcessingStatus(originalKey, {
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
+      if (statusId) {
+        await this.storageService.updateImageProcessingStatus(statusId, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        });
+      }
       
       throw error;
     }
   }
 
-  // ... (The rest of your class methods 'getPageIndices' and 'getMimeType' are correct and do not need changes)
-  private getPageIndices(request: ImageConversionRequest, totalPages: number): number[] {
+  /**
+   * Returns the path of a PNG thumbnail of one page, rendered to the given width.
+   * Thumbnails are cached on disk under `<key>_p<page>_w<width>` and reused until the file is deleted.
+   */
+  async getThumbnail(key: string, pageNumber: number, width: number): Promise<string> {
+    const file = await this.storageService.getFile(key);
+    const thumbnailKey = `${key}_p${pageNumber}_w${width}`;
+    const thumbnailPath = FileUtils.getThumbnailPath(`${thumbnailKey}.png`);
+
+    if (await FileUtils.fileExists(thumbnailPath)) {
+      return thumbnailPath;
+    }
+
+    const pending = this.pendingThumbnails.get(thumbnailKey);
+    if (pending) {
+      return pending;
+    }
+
+    const render = this.renderThumbnail(file, pageNumber, width, thumbnailPath)
+      .finally(() => this.pendingThumbnails.delete(thumbnailKey));
+    this.pendingThumbnails.set(thumbnailKey, render);
+    return render;
+  }
+
+  private async renderThumbnail(file: StoredFile, pageNumber: number, width: number, thumbnailPath: string): Promise<string> {
+    const totalPages = file.pdfSummary?.pageCount
+      ?? (await PDFDocument.load(await this.storageService.readObject(file.objectKey), { ignoreEncryption: true })).getPageCount();
+    if (pageNumber > totalPages) {
+      throw new ValidationError(`Invalid page number: ${pageNumber}. PDF has ${totalPages} pages.`);
+    }
+    // There is no way to pass a password with a GET, so only files that open without one get thumbnails
+    await this.decryptionService.assertCanOpen(file);
+
+    // Render under a temporary name and rename, so a half-written file is never served from the cache
+    const tempPrefix = FileUtils.getThumbnailPath(`${FileUtils.generateKey()}_rendering`);
+    try {
+      await this.storageService.withLocalFile(file.objectKey, filePath =>
+        this.poppler.pdfToCairo(filePath, tempPrefix, {
+          firstPageToConvert: pageNumber,
+          lastPageToConvert: pageNumber,
+          pngFile: true,
+          singleFile: true,
+          scalePageToXAxis: width,
+          scalePageToYAxis: -1
+        })
+      );
+      await fs.rename(`${tempPrefix}.png`, thumbnailPath);
+    } catch (error) {
+      await FileUtils.deleteFile(`${tempPrefix}.png`);
+      logger.error({ err: error, fileKey: file.key, pageNumber }, 'Thumbnail rendering failed');
+      throw new ProcessingError(`Failed to render thumbnail of page ${pageNumber}`);
+    }
+
+    logger.info({ fileKey: file.key, pageNumber, width }, 'Rendered thumbnail');
+    return thumbnailPath;
+  }
+
+  /**
+   * Extracts text per page with pdftotext. The selected pages are covered by a single
+   * pdftotext run over their span, which is then split back into pages.
+   */
+  async extractText(originalKey: string, request: TextExtractionRequest): Promise<TextExtractionResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    const mode = request.mode ?? 'plain';
+
+    const pdfBytes = await this.storageService.readObject(originalFile.objectKey);
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+    if (pdfDoc.isEncrypted) {
+      await this.storageService.withLocalFile(originalFile.objectKey, filePath =>
+        this.decryptionService.verifyPassword(filePath, request.password)
+      );
+    }
+    const pageIndices = this.getPageIndices(request, pdfDoc.getPageCount());
+    const pageNumbers = pageIndices.map(index => index + 1);
+    const firstPage = Math.min(...pageNumbers);
+    const lastPage = Math.max(...pageNumbers);
+
+    let output: string;
+    try {
+      output = await this.storageService.withLocalFile(originalFile.objectKey, filePath =>
+        this.poppler.pdfToText(filePath, undefined, {
+          firstPageToConvert: firstPage,
+          lastPageToConvert: lastPage,
+          outputEncoding: 'UTF-8',
+          eolConvention: 'unix',
+          rawLayout: mode === 'raw',
+          maintainLayout: mode === 'layout',
+          boundingBoxXhtml: mode === 'words',
+          boundingBoxXhtmlLayout: mode === 'lines',
+          ...this.decryptionService.getPasswordOptions(request.password)
+        })
+      );
+    } catch (error) {
+      logger.error({ err: error, fileKey: originalKey, mode }, 'pdftotext failed');
+      throw new ProcessingError(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let pages: PageText[];
+    if (mode === 'words' || mode === 'lines') {
+      const boxPages = parseBoundingBoxXhtml(output);
+      pages = pageNumbers.map(pageNumber => {
+        const boxPage = boxPages[pageNumber - firstPage];
+        const words = boxPage?.words ?? [];
+        return {
+          pageNumber,
+          text: mode === 'lines'
+            ? (boxPage?.lines ?? []).map(line => line.text).join('\n')
+            : words.map(word => word.text).join(' '),
+          width: boxPage?.width,
+          height: boxPage?.height,
+          ...(mode === 'words' ? { words } : { lines: boxPage?.lines ?? [] })
+        };
+      });
+    } else {
+      // pdftotext ends every page with a form feed
+      const pageTexts = output.split('\f');
+      pages = pageNumbers.map(pageNumber => ({
+        pageNumber,
+        text: pageTexts[pageNumber - firstPage] ?? ''
+      }));
+    }
+
+    return {
+      originalKey,
+      mode,
+      pageCount: pages.length,
+      pages
+    };
+  }
+
+  /**
+   * Lets conversion requests whose pages would render above config.maxRenderPixels fail
+   * before any work is queued.
+   */
+  async assertRenderSizeAllowed(file: StoredFile, request: ImageConversionRequest): Promise<void> {
+    const pdfDoc = await PDFDocument.load(await this.storageService.readObject(file.objectKey), { ignoreEncryption: true });
+    this.assertRenderSize(request, pdfDoc, this.getPageIndices(request, pdfDoc.getPageCount()));
+  }
+
+  private assertRenderSize(request: ImageConversionRequest, pdfDoc: PDFDocument, pageIndices: number[]): void {
+    for (const pageIndex of pageIndices) {
+      const { width, height } = this.getRenderedSize(request, pdfDoc.getPage(pageIndex));
+      if (width * height > config.maxRenderPixels) {
+        throw new ValidationError(
+          `Page ${pageIndex + 1} would render at ${width}x${height} pixels, more than the limit of ${config.maxRenderPixels}. ` +
+          'Lower the dpi, scale or size, or render a region.'
+        );
+      }
+    }
+  }
+
+  // Pixel size of a rendered page (or of the requested region of it), as pdftocairo will produce it
+  private getRenderedSize(request: ImageConversionRequest, page: PDFPage): { width: number; height: number } {
+    const { width: pageWidth, height: pageHeight } = this.getDisplayedPageSize(request, page);
+    let factor: number;
+    if (request.width || request.height) {
+      factor = Math.min(
+        request.width ? request.width / pageWidth : Infinity,
+        request.height ? request.height / pageHeight : Infinity
+      );
+    } else if (request.dpi) {
+      factor = request.dpi / 72;
+    } else {
+      factor = (request.scale ? request.scale * 1024 : 1024) / Math.max(pageWidth, pageHeight);
+    }
+
+    const width = Math.max(1, Math.ceil(pageWidth * factor));
+    const height = Math.max(1, Math.ceil(pageHeight * factor));
+    if (!request.region) {
+      return { width, height };
+    }
+    return {
+      width: Math.max(0, Math.min(request.region.width, width - request.region.x)),
+      height: Math.max(0, Math.min(request.region.height, height - request.region.y))
+    };
+  }
+
+  // Page size in points as it is displayed, after the page's rotation
+  private getDisplayedPageSize(request: ImageConversionRequest, page: PDFPage): { width: number; height: number } {
+    const { width, height } = request.box === 'crop' ? page.getCropBox() : page.getMediaBox();
+    const rotated = page.getRotation().angle % 180 !== 0;
+    return rotated ? { width: height, height: width } : { width, height };
+  }
+
+  /**
+   * Maps the rendering fields of a conversion request onto pdftocairo options.
+   * Size is chosen by, in order: width/height fit, dpi, or the legacy scale factor.
+   */
+  private getRenderOptions(request: ImageConversionRequest, page: PDFPage) {
+    const format = request.format ?? 'png';
+    const options: Parameters<Poppler['pdfToCairo']>[2] = {
+      pngFile: format === 'png',
+      jpegFile: format === 'jpeg',
+      tiffFile: format === 'tiff',
+      grayscaleFile: request.color === 'grayscale',
+      monochromeFile: request.color === 'monochrome',
+      transparentPageColor: request.transparent === true,
+      cropBox: request.box === 'crop'
+    };
+
+    // node-poppler rejects options that are present but undefined
+    if (request.jpegQuality) {
+      options.jpegOptions = `quality=${request.jpegQuality}`;
+    }
+
+    if (request.width || request.height) {
+      // Fit inside the requested box while keeping the page's aspect ratio
+      const { width: pageWidth, height: pageHeight } = this.getDisplayedPageSize(request, page);
+      const factor = Math.min(
+        request.width ? request.width / pageWidth : Infinity,
+        request.height ? request.height / pageHeight : Infinity
+      );
+      options.scalePageToXAxis = Math.max(1, Math.round(pageWidth * factor));
+      options.scalePageToYAxis = -1;
+    } else if (request.dpi) {
+      options.resolutionXYAxis = request.dpi;
+    } else {
+      options.scalePageTo = request.scale ? Math.round(request.scale * 1024) : 1024;
+    }
+
+    if (request.region) {
+      options.cropXAxis = request.region.x;
+      options.cropYAxis = request.region.y;
+      options.cropWidth = request.region.width;
+      options.cropHeight = request.region.height;
+    }
+
+    return options;
+  }
+
+  // What identifies a conversion's output: the resolved pages and render options, without delivery details
+  private getCacheRequest(request: ImageConversionRequest, pageIndices: number[]): object {
+    const { pages, pageRange, callbackUrl, password, ...renderOptions } = request;
+    return { ...renderOptions, pages: pageIndices.map(index => index + 1) };
+  }
+
+  private getPageIndices(request: PageSelection, totalPages: number): number[] {
     if (request.pages) {
       // Validate individual pages
       const invalidPages = request.pages.filter(page => page < 1 || page > totalPages);
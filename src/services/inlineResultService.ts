@@ -0,0 +1,66 @@
+import { config } from '../config';
+import { FileKeys, ImageKeys, InlineFile, Job } from '../types';
+import { AppError } from '../utils/errors';
+import { StorageService } from './storageService';
+import { JobService } from './jobService';
+
+/**
+ * Builds ?inline=base64 responses: stored files and images embedded in the JSON envelope,
+ * and job results with their output files, so clients need no second request.
+ */
+export class InlineResultService {
+  constructor(
+    private storageService: StorageService,
+    private jobService: JobService
+  ) {}
+
+  async inlineFile(key: string): Promise<InlineFile> {
+    const file = await this.storageService.getFile(key);
+    return {
+      key: file.key,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      data: (await this.storageService.readObject(file.objectKey)).toString('base64')
+    };
+  }
+
+  async inlineImage(key: string): Promise<InlineFile> {
+    const image = await this.storageService.getImage(key);
+    return {
+      key: image.key,
+      originalName: image.originalName,
+      mimeType: image.mimeType,
+      size: image.size,
+      data: (await this.storageService.readObject(image.objectKey)).toString('base64')
+    };
+  }
+
+  /**
+   * Waits up to config.inlineWaitTimeout for a job and returns its result with the output files
+   * embedded. Returns undefined if the job is still queued or running, and throws if it failed.
+   */
+  async waitForInlineResult(jobId: string): Promise<Record<string, unknown> | undefined> {
+    const job = await this.jobService.waitForJob(jobId, config.inlineWaitTimeout);
+
+    if (job.status === 'error') {
+      throw new AppError(job.error?.message ?? 'Job failed', 422, job.error?.code ?? 'PROCESSING_ERROR');
+    }
+    if (job.status !== 'completed') {
+      return undefined;
+    }
+
+    return this.inlineJobResult(job);
+  }
+
+  private async inlineJobResult(job: Job): Promise<Record<string, unknown>> {
+    if (job.type === 'truncate') {
+      const result = job.result as FileKeys;
+      return { ...result, file: await this.inlineFile(result.truncatedKey) };
+    }
+
+    const result = job.result as ImageKeys;
+    const images = await Promise.all(result.imageKeys.map(imageKey => this.inlineImage(imageKey)));
+    return { ...result, images };
+  }
+}
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config';
+import { Job } from '../types';
+import { createTestDatabase } from '../test/helpers';
+import { JobService } from './jobService';
+
+test('claims queued jobs oldest first and counts attempts', () => {
+  const jobService = new JobService(createTestDatabase());
+  const first = jobService.enqueue('truncate', 'a', { pages: [1] });
+  jobService.enqueue('truncate', 'b', { pages: [1] });
+
+  const claimed = jobService.claimNextJob();
+  assert.equal(claimed?.id, first.id);
+  assert.equal(claimed?.status, 'running');
+  assert.equal(claimed?.attempts, 1);
+});
+
+test('re-queues interrupted jobs until they reach the attempt limit', () => {
+  const jobService = new JobService(createTestDatabase());
+  const job = jobService.enqueue('convert', 'a', {});
+  const finished: Job[] = [];
+  jobService.on('finished', (finishedJob: Job) => finished.push(finishedJob));
+
+  for (let attempt = 1; attempt < config.jobMaxAttempts; attempt++) {
+    jobService.claimNextJob();
+    assert.equal(jobService.requeueInterruptedJobs(), 1);
+    assert.equal(jobService.getJob(job.id).status, 'queued');
+  }
+
+  jobService.claimNextJob();
+  assert.equal(jobService.requeueInterruptedJobs(), 0);
+  const failed = jobService.getJob(job.id);
+  assert.equal(failed.status, 'error');
+  assert.equal(failed.error?.code, 'JOB_ATTEMPTS_EXHAUSTED');
+  assert.deepEqual(finished.map(finishedJob => finishedJob.id), [job.id]);
+});
+
+test('finishes a job only once', () => {
+  const jobService = new JobService(createTestDatabase());
+  const job = jobService.enqueue('truncate', 'a', { pages: [1] });
+  const finished: Job[] = [];
+  jobService.on('finished', (finishedJob: Job) => finished.push(finishedJob));
+
+  jobService.claimNextJob();
+  jobService.completeJob(job.id, { keys: ['out'] });
+  jobService.failJob(job.id, { code: 'INTERNAL_ERROR', message: 'late failure' });
+
+  const completed = jobService.getJob(job.id);
+  assert.equal(completed.status, 'completed');
+  assert.equal(completed.error, undefined);
+  assert.equal(finished.length, 1);
+});
+
+test('a throwing finished listener neither fails the job nor stops other listeners', () => {
+  const jobService = new JobService(createTestDatabase());
+  const job = jobService.enqueue('truncate', 'a', { pages: [1] });
+  const finished: Job[] = [];
+  jobService.on('finished', () => {
+    throw new Error('listener failure');
+  });
+  jobService.once('finished', (finishedJob: Job) => finished.push(finishedJob));
+
+  jobService.claimNextJob();
+  assert.doesNotThrow(() => jobService.completeJob(job.id, {}));
+  assert.equal(jobService.getJob(job.id).status, 'completed');
+  assert.equal(finished.length, 1);
+  assert.equal(jobService.listenerCount('finished'), 1);
+});
+
+test('fails unfinished jobs whose password was lost in a restart', () => {
+  const databaseService = createTestDatabase();
+  const beforeRestart = new JobService(databaseService);
+  const running = beforeRestart.enqueue('truncate', 'a', { pages: [1] }, { password: 'secret' });
+  const queued = beforeRestart.enqueue('truncate', 'b', { pages: [1] }, { password: 'secret' });
+  const withoutPassword = beforeRestart.enqueue('truncate', 'c', { pages: [1] });
+  beforeRestart.claimNextJob();
+  assert.equal(beforeRestart.getJob(running.id).hasPassword, true);
+
+  const afterRestart = new JobService(databaseService);
+  assert.equal(afterRestart.requeueInterruptedJobs(), 0);
+
+  for (const id of [running.id, queued.id]) {
+    const job = afterRestart.getJob(id);
+    assert.equal(job.status, 'error');
+    assert.equal(job.error?.code, 'PASSWORD_REQUIRED');
+  }
+  assert.equal(afterRestart.getJob(withoutPassword.id).status, 'queued');
+});
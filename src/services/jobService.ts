@@ -0,0 +1,213 @@
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import { Job, JobError, JobType } from '../types';
+import { FileUtils } from '../utils/fileUtils';
+import { NotFoundError } from '../utils/errors';
+import { DatabaseService } from './databaseService';
+import { logger } from './logger';
+
+export interface EnqueueOptions {
+  callbackUrl?: string;
+  password?: string;
+}
+
+/**
+ * Persists background jobs. Emits 'progress' with the running Job whenever its progress changes,
+ * and 'finished' with the final Job when a job completes or fails.
+ */
+export class JobService extends EventEmitter {
+  private db: Database.Database;
+  // PDF passwords are kept in memory only; jobs that lose theirs to a restart fail with PASSWORD_REQUIRED
+  private passwords = new Map<string, string>();
+
+  constructor(databaseService: DatabaseService) {
+    super();
+    this.db = databaseService.db;
+    // Every request waiting on a job adds a 'finished' listener
+    this.setMaxListeners(0);
+  }
+
+  // Helper to convert database rows (with ISO dates and JSON columns) to our Job type
+  private rowToJob(row: any): Job {
+    return {
+      ...row,
+      payload: JSON.parse(row.payload),
+      callbackUrl: row.callbackUrl ?? undefined,
+      hasPassword: Boolean(row.hasPassword),
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error ? JSON.parse(row.error) : undefined,
+      createdAt: new Date(row.createdAt),
+      startedAt: row.startedAt ? new Date(row.startedAt) : undefined,
+      completedAt: row.completedAt ? new Date(row.completedAt) : undefined,
+    };
+  }
+
+  enqueue<TPayload>(type: JobType, sourceKey: string, payload: TPayload, options: EnqueueOptions = {}): Job<TPayload> {
+    const id = FileUtils.generateKey();
+    const createdAt = new Date();
+
+    this.db.prepare(`
+      INSERT INTO jobs (id, type, status, sourceKey, payload, callbackUrl, hasPassword, progress, attempts, createdAt)
+      VALUES (@id, @type, 'queued', @sourceKey, @payload, @callbackUrl, @hasPassword, 0, 0, @createdAt)
+    `).run({
+      id,
+      type,
+      sourceKey,
+      payload: JSON.stringify(payload),
+      callbackUrl: options.callbackUrl ?? null,
+      hasPassword: options.password !== undefined ? 1 : 0,
+      createdAt: createdAt.toISOString(),
+    });
+
+    if (options.password !== undefined) {
+      this.passwords.set(id, options.password);
+    }
+
+    logger.info({ jobId: id, type, sourceKey }, 'Job queued');
+    return this.getJob(id) as Job<TPayload>;
+  }
+
+  getJob(id: string): Job {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id);
+    if (!row) {
+      throw new NotFoundError(`Job with id ${id} not found`);
+    }
+    return this.rowToJob(row);
+  }
+
+  /**
+   * Atomically moves the oldest queued job to 'running' and returns it.
+   * Returns undefined when the queue is empty.
+   */
+  claimNextJob(): Job | undefined {
+    const row = this.db.prepare(`
+      UPDATE jobs
+      SET status = 'running', attempts = attempts + 1, startedAt = @startedAt
+      WHERE id = (
+        SELECT id FROM jobs WHERE status = 'queued' ORDER BY createdAt LIMIT 1
+      )
+      RETURNING *
+    `).get({ startedAt: new Date().toISOString() });
+
+    return row ? this.rowToJob(row) : undefined;
+  }
+
+  /**
+   * Resolves with the job once it completes or fails, or with its current state after timeoutMs.
+   */
+  waitForJob(id: string, timeoutMs: number): Promise<Job> {
+    const job = this.getJob(id);
+    if (job.status === 'completed' || job.status === 'error') {
+      return Promise.resolve(job);
+    }
+
+    return new Promise((resolve) => {
+      const onFinished = (finished: Job) => {
+        if (finished.id === id) {
+          clearTimeout(timer);
+          this.off('finished', onFinished);
+          resolve(finished);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.off('finished', onFinished);
+        resolve(this.getJob(id));
+      }, timeoutMs);
+      this.on('finished', onFinished);
+    });
+  }
+
+  getJobPassword(id: string): string | undefined {
+    return this.passwords.get(id);
+  }
+
+  updateProgress(id: string, progress: number): void {
+    const result = this.db.prepare(`UPDATE jobs SET progress = ? WHERE id = ? AND status = 'running'`).run(progress, id);
+    if (result.changes > 0) {
+      this.emit('progress', this.getJob(id));
+    }
+  }
+
+  // Jobs for a source key that are still waiting or running, oldest first
+  listActiveJobs(sourceKey: string): Job[] {
+    return this.db.prepare(`SELECT * FROM jobs WHERE sourceKey = ? AND status IN ('queued', 'running') ORDER BY createdAt`)
+      .all(sourceKey)
+      .map(row => this.rowToJob(row));
+  }
+
+  // Finishing is a no-op for jobs that already completed or failed, so a job finishes exactly once
+  completeJob(id: string, result: unknown): void {
+    const update = this.db.prepare(`
+      UPDATE jobs SET status = 'completed', progress = 100, result = ?, error = NULL, completedAt = ?
+      WHERE id = ? AND status NOT IN ('completed', 'error')
+    `).run(JSON.stringify(result), new Date().toISOString(), id);
+    this.passwords.delete(id);
+    if (update.changes === 0) {
+      logger.warn({ jobId: id }, 'Ignoring completion of a job that already finished');
+      return;
+    }
+    logger.info({ jobId: id }, 'Job completed');
+    this.emitFinished(this.getJob(id));
+  }
+
+  failJob(id: string, error: JobError): void {
+    const update = this.db.prepare(`
+      UPDATE jobs SET status = 'error', error = ?, completedAt = ?
+      WHERE id = ? AND status NOT IN ('completed', 'error')
+    `).run(JSON.stringify(error), new Date().toISOString(), id);
+    this.passwords.delete(id);
+    if (update.changes === 0) {
+      logger.warn({ jobId: id, error }, 'Ignoring failure of a job that already finished');
+      return;
+    }
+    logger.warn({ jobId: id, error }, 'Job failed');
+    this.emitFinished(this.getJob(id));
+  }
+
+  // Calls every 'finished' listener even when one throws; a listener error never changes the job
+  private emitFinished(job: Job): void {
+    for (const listener of this.rawListeners('finished')) {
+      try {
+        listener.call(this, job);
+      } catch (error) {
+        logger.error({ err: error, jobId: job.id }, 'A job finished listener threw an error');
+      }
+    }
+  }
+
+  /**
+   * Jobs left in 'running' belong to a worker that died (crash or redeploy).
+   * Put them back on the queue so they are picked up again, unless they have already been
+   * started config.jobMaxAttempts times: a job that keeps taking the process down then fails.
+   * Unfinished jobs whose password was lost with the previous process fail with PASSWORD_REQUIRED,
+   * since running them without it could only fail later.
+   */
+  requeueInterruptedJobs(): number {
+    const withPassword = this.db.prepare(`SELECT id FROM jobs WHERE status IN ('queued', 'running') AND hasPassword = 1`)
+      .all() as { id: string }[];
+    for (const job of withPassword.filter(job => !this.passwords.has(job.id))) {
+      this.failJob(job.id, {
+        code: 'PASSWORD_REQUIRED',
+        message: 'The service restarted before this job ran and PDF passwords are not stored. Submit the request again with the password.'
+      });
+    }
+
+    const exhausted = this.db.prepare(`SELECT id, attempts FROM jobs WHERE status = 'running' AND attempts >= ?`)
+      .all(config.jobMaxAttempts) as { id: string; attempts: number }[];
+    for (const job of exhausted) {
+      this.failJob(job.id, {
+        code: 'JOB_ATTEMPTS_EXHAUSTED',
+        message: `Job was interrupted ${job.attempts} times and is not retried again`
+      });
+    }
+
+    const result = this.db.prepare(`
+      UPDATE jobs SET status = 'queued', progress = 0, startedAt = NULL WHERE status = 'running'
+    `).run();
+    if (result.changes > 0) {
+      logger.warn({ count: result.changes }, 'Re-queued jobs interrupted by a previous shutdown');
+    }
+    return result.changes;
+  }
+}
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'timers/promises';
+import { createTestDatabase } from '../test/helpers';
+import { JobService } from './jobService';
+import { JobWorker } from './jobWorker';
+
+test('fails a job whose result cannot be recorded instead of rejecting', async () => {
+  const jobService = new JobService(createTestDatabase());
+  jobService.completeJob = () => {
+    throw new Error('SQLITE_BUSY: database is locked');
+  };
+  const worker = new JobWorker(jobService, { concurrency: 1, pollInterval: 10 });
+  worker.registerHandler('truncate', async () => ({ truncatedKey: 'b' }));
+  const job = jobService.enqueue('truncate', 'a', { pages: [1] });
+
+  worker.start();
+  try {
+    for (let i = 0; i < 100 && jobService.getJob(job.id).status === 'queued'; i++) {
+      await delay(10);
+    }
+  } finally {
+    await worker.stop();
+  }
+
+  const failed = jobService.getJob(job.id);
+  assert.equal(failed.status, 'error');
+  assert.equal(failed.error?.code, 'RESULT_NOT_RECORDED');
+});
@@ -0,0 +1,116 @@
+import { Job, JobError, JobType } from '../types';
+import { AppError } from '../utils/errors';
+import { JobService } from './jobService';
+import { logger } from './logger';
+
+export type JobHandler = (job: Job, onProgress: (progress: number) => void) => Promise<unknown>;
+
+export interface JobWorkerOptions {
+  concurrency: number;
+  pollInterval: number;
+}
+
+/**
+ * Polls the jobs table and runs queued jobs with the handler registered for their type.
+ * Up to `concurrency` jobs run at the same time.
+ */
+export class JobWorker {
+  private handlers = new Map<JobType, JobHandler>();
+  private activeJobs = new Set<Promise<void>>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private jobService: JobService, private options: JobWorkerOptions) {}
+
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.jobService.requeueInterruptedJobs();
+    logger.info({ concurrency: this.options.concurrency }, 'Job worker started');
+    this.poll();
+  }
+
+  /**
+   * Stops claiming new jobs and waits for the in-flight ones to settle.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await Promise.allSettled([...this.activeJobs]);
+    logger.info('Job worker stopped');
+  }
+
+  private poll(): void {
+    if (!this.running) {
+      return;
+    }
+
+    try {
+      while (this.activeJobs.size < this.options.concurrency) {
+        const job = this.jobService.claimNextJob();
+        if (!job) {
+          break;
+        }
+        const execution = this.runJob(job).finally(() => {
+          this.activeJobs.delete(execution);
+        });
+        this.activeJobs.add(execution);
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to claim the next job');
+    }
+
+    this.timer = setTimeout(() => this.poll(), this.options.pollInterval);
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      this.failJob(job, {
+        code: 'UNKNOWN_JOB_TYPE',
+        message: `No handler registered for job type ${job.type}`
+      });
+      return;
+    }
+
+    logger.info({ jobId: job.id, type: job.type, sourceKey: job.sourceKey, attempt: job.attempts }, 'Job started');
+
+    let result: unknown;
+    try {
+      result = await handler(job, (progress) => this.jobService.updateProgress(job.id, progress));
+    } catch (error) {
+      logger.error({ err: error, jobId: job.id }, 'Job handler threw an error');
+      this.failJob(job, {
+        code: error instanceof AppError ? error.code : 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return;
+    }
+
+    // Kept apart from the handler's try, so that only a handler error is reported as the job's error
+    try {
+      this.jobService.completeJob(job.id, result);
+    } catch (error) {
+      logger.error({ err: error, jobId: job.id }, 'Failed to record the job result');
+      this.failJob(job, { code: 'RESULT_NOT_RECORDED', message: 'The job finished but its result could not be recorded' });
+    }
+  }
+
+  // A job that cannot be marked failed either stays running and is re-queued on the next start
+  private failJob(job: Job, error: JobError): void {
+    try {
+      this.jobService.failJob(job.id, error);
+    } catch (recordError) {
+      logger.error({ err: recordError, jobId: job.id }, 'Failed to record the job error; it is re-queued on the next start');
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PasswordRequiredError, ProcessingError } from '../utils/errors';
+import { createTestDatabase, ensureDataDirectories } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+import { PdfDecryptionService } from './pdfDecryptionService';
+import { StorageService } from './storageService';
+
+// Stands in for qpdf: copies the input when the password read from stdin is "secret"
+const fakeQpdf = `#!/bin/sh
+read -r password
+[ "$1" = "--password-file=-" ] && [ "$2" = "--decrypt" ] || { echo "unexpected arguments: $*" >&2; exit 2; }
+[ "$password" = "secret" ] || { echo "$3: invalid password" >&2; exit 2; }
+cp "$3" "$4"
+`;
+
+async function setUp(qpdfName: string = 'qpdf') {
+  await ensureDataDirectories();
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'qpdf-'));
+  await fs.writeFile(path.join(dir, 'qpdf'), fakeQpdf, { mode: 0o755 });
+  const inputPath = path.join(dir, 'encrypted.pdf');
+  await fs.writeFile(inputPath, '%PDF-1.7 encrypted');
+
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  return { decryptionService: new PdfDecryptionService(storageService, path.join(dir, qpdfName)), inputPath };
+}
+
+test('decrypts with qpdf, passing the password on stdin', async () => {
+  const { decryptionService, inputPath } = await setUp();
+
+  const decrypted = await decryptionService.decrypt(inputPath, 'secret');
+
+  assert.equal(decrypted.toString(), '%PDF-1.7 encrypted');
+});
+
+test('reports a wrong or missing password as PASSWORD_REQUIRED', async () => {
+  const { decryptionService, inputPath } = await setUp();
+
+  await assert.rejects(decryptionService.decrypt(inputPath, 'wrong'), (error: unknown) =>
+    error instanceof PasswordRequiredError && error.message === 'The password for this PDF is incorrect'
+  );
+  await assert.rejects(decryptionService.decrypt(inputPath), PasswordRequiredError);
+});
+
+test('reports a missing qpdf binary as a processing error', async () => {
+  const { decryptionService, inputPath } = await setUp('missing-qpdf');
+
+  await assert.rejects(decryptionService.decrypt(inputPath, 'secret'), ProcessingError);
+});
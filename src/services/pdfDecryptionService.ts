@@ -0,0 +1,99 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import { Poppler } from 'node-poppler';
+import { config } from '../config';
+import { StoredFile } from '../types';
+import { StorageService } from './storageService';
+import { FileUtils } from '../utils/fileUtils';
+import { AppError, PasswordRequiredError, ProcessingError } from '../utils/errors';
+import { getPoppler } from './poppler';
+
+/**
+ * Opens encrypted PDFs, which pdf-lib cannot do: Poppler checks passwords and
+ * qpdf writes decrypted copies. The password is tried as both the owner and the user password.
+ * Files that only have an owner password open without one.
+ */
+export class PdfDecryptionService {
+  constructor(
+    private storageService: StorageService,
+    private qpdfPath: string = config.qpdfPath
+  ) {}
+
+  // Resolved on first use, so services that never open an encrypted file do not need Poppler
+  private get poppler(): Poppler {
+    return getPoppler();
+  }
+
+  getPasswordOptions(password?: string): { ownerPassword?: string; userPassword?: string } {
+    return password ? { ownerPassword: password, userPassword: password } : {};
+  }
+
+  /**
+   * Lets requests for encrypted files fail with PASSWORD_REQUIRED before any work is queued.
+   * Unencrypted files are always accepted.
+   */
+  async assertCanOpen(file: StoredFile, password?: string): Promise<void> {
+    if (file.pdfSummary?.isEncrypted) {
+      await this.storageService.withLocalFile(file.objectKey, filePath => this.verifyPassword(filePath, password));
+    }
+  }
+
+  // Throws PasswordRequiredError unless Poppler can open the file with the password
+  async verifyPassword(filePath: string, password?: string): Promise<void> {
+    try {
+      await this.poppler.pdfInfo(filePath, this.getPasswordOptions(password));
+    } catch (error) {
+      throw this.toPasswordError(error, password);
+    }
+  }
+
+  /**
+   * Returns a decrypted copy of the file written by qpdf, which keeps the document structure:
+   * form fields, links, bookmarks and the text layer survive.
+   */
+  async decrypt(filePath: string, password?: string): Promise<Buffer> {
+    const outputPath = FileUtils.getUploadPath(`${FileUtils.generateKey()}_decrypted.pdf`);
+    try {
+      await this.runQpdf(['--password-file=-', '--decrypt', filePath, outputPath], password ?? '');
+      return await fs.readFile(outputPath);
+    } catch (error) {
+      throw this.toPasswordError(error, password);
+    } finally {
+      await FileUtils.deleteFile(outputPath);
+    }
+  }
+
+  // The password goes through stdin so it never shows up in the process list
+  private runQpdf(args: string[], password: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.qpdfPath, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+      let stderr = '';
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        // Exit code 3 means the output was written with warnings
+        if (code === 0 || code === 3) {
+          resolve();
+        } else {
+          reject(new Error(stderr.trim() || `qpdf exited with code ${code}`));
+        }
+      });
+      child.stdin.on('error', () => {
+        // qpdf may exit before reading the password; its exit code reports why
+      });
+      child.stdin.end(`${password}\n`);
+    });
+  }
+
+  private toPasswordError(error: unknown, password?: string): AppError {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (/password/i.test(message)) {
+      return password
+        ? new PasswordRequiredError('The password for this PDF is incorrect')
+        : new PasswordRequiredError();
+    }
+    return new ProcessingError(`Failed to open encrypted PDF: ${message}`);
+  }
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument } from 'pdf-lib';
+import { config } from '../config';
+import { ValidationError } from '../utils/errors';
+import { FileUtils } from '../utils/fileUtils';
+import { describePdf } from '../utils/pdfInspector';
+import { createTestDatabase, writeUpload } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+import { DerivationCacheService } from './derivationCacheService';
+import { PdfDecryptionService } from './pdfDecryptionService';
+import { PdfService } from './pdfService';
+import { StorageService } from './storageService';
+
+function createPdfService() {
+  const databaseService = createTestDatabase();
+  const storageService = new StorageService(databaseService, new LocalBlobStore());
+  const pdfService = new PdfService(
+    storageService,
+    new PdfDecryptionService(storageService),
+    new DerivationCacheService(databaseService, storageService)
+  );
+  return { storageService, pdfService };
+}
+
+async function storePdf(storageService: StorageService, pageCount: number) {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage();
+  }
+  const upload = await writeUpload(Buffer.from(await pdfDoc.save()));
+  return storageService.storeFile(upload.key, 'test.pdf', upload.fileName, upload.filePath, upload.size, 'application/pdf');
+}
+
+test('rejects edits whose result exceeds the page limit', async () => {
+  const { storageService, pdfService } = createPdfService();
+  const original = await storePdf(storageService, 2);
+
+  await assert.rejects(
+    pdfService.editPdf(original.key, {
+      operations: [
+        { op: 'rotate', pages: [1], angle: 90 },
+        { op: 'duplicate', pages: [1, 2], copies: config.maxEditPages }
+      ]
+    }),
+    (error: unknown) => error instanceof ValidationError && /^Operation 2 \(duplicate\): The result would have \d+ pages/.test(error.message)
+  );
+});
+
+test('applies edits that stay within the page limit', async () => {
+  const { storageService, pdfService } = createPdfService();
+  const original = await storePdf(storageService, 2);
+
+  const result = await pdfService.editPdf(original.key, {
+    operations: [{ op: 'duplicate', pages: [1], copies: 2 }, { op: 'delete', pages: [4] }]
+  });
+
+  assert.equal(result.pageCount, 3);
+});
+
+test('rejects filling form fields the PDF does not have', async () => {
+  const { storageService, pdfService } = createPdfService();
+  const original = await storePdf(storageService, 1);
+
+  await assert.rejects(
+    pdfService.fillForm(original.key, { fields: { missing: 'x', other: true } }),
+    (error: unknown) => error instanceof ValidationError && error.message === 'Unknown form fields: missing, other'
+  );
+});
+
+test('a cached truncation gives the requesting file an output of its own', async () => {
+  const { storageService, pdfService } = createPdfService();
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.addPage();
+  const bytes = await pdfDoc.save();
+  const [first, second] = await Promise.all(['first.pdf', 'second.pdf'].map(async name => {
+    const upload = await writeUpload(Buffer.from(bytes), name);
+    return storageService.storeFile(upload.key, name, upload.fileName, upload.filePath, upload.size, 'application/pdf', {
+      pdfSummary: describePdf(pdfDoc, bytes)
+    });
+  }));
+
+  const earlier = await pdfService.processPdfTruncation(first.key, { pages: [2] });
+  const cached = await pdfService.processPdfTruncation(second.key, { pages: [2] });
+
+  assert.equal(cached.cached, true);
+  assert.notEqual(cached.truncatedKey, earlier.truncatedKey);
+  const output = await storageService.getFile(cached.truncatedKey);
+  assert.equal(output.parentKey, second.key);
+  assert.equal(output.originalName, FileUtils.getTruncatedFileName('second.pdf'));
+  await storageService.deleteFile(first.key, { cascade: true });
+  assert.equal(await storageService.objectExists(output.objectKey), true);
+});
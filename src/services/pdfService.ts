@@ -1,40 +1,122 @@
 import fs from 'fs/promises';
-import { PDFDocument } from 'pdf-lib';
-import { TruncationRequest, FileKeys, PageRange } from '../types';
+import path from 'path';
+import { EncryptedPDFError, PDFDocument, PDFFont, PDFImage, PageSizes, StandardFonts, degrees } from 'pdf-lib';
+import {
+  TruncationRequest,
+  FileKeys,
+  PageRange,
+  PageSelection,
+  ProcessingOptions,
+  MergeRequest,
+  MergeResult,
+  SplitRequest,
+  SplitResult,
+  SplitPart,
+  EditRequest,
+  EditResult,
+  EditOperation,
+  StoredFile,
+  StoreFileOptions,
+  PdfSummary,
+  PdfPageInfo,
+  MetadataRequest,
+  MetadataResult,
+  StampRequest,
+  StampResult,
+  StampImage,
+  FormField,
+  FormFillRequest,
+  FormFillResult,
+  ImageSource,
+  ImagesToPdfRequest,
+  ImagesToPdfResult,
+  DecryptRequest,
+  DecryptResult
+} from '../types';
+import { config } from '../config';
 import { FileUtils } from '../utils/fileUtils';
-import { ProcessingError, ValidationError, NotFoundError } from '../utils/errors';
+import { addOutline, readTopLevelOutline, OutlineEntry } from '../utils/pdfOutline';
+import { describePdf, describePages } from '../utils/pdfInspector';
+import { applyDocumentInfo, writeXmpMetadata } from '../utils/pdfMetadata';
+import { listFormFields, fillFormField } from '../utils/pdfForm';
+import { drawStamp, fillPlaceholders, hexToRgb, StampContent, StampLayout } from '../utils/pdfStamp';
+import { ProcessingError, ValidationError, NotFoundError, PasswordRequiredError } from '../utils/errors';
 import { StorageService } from './storageService';
+import { PdfDecryptionService } from './pdfDecryptionService';
+import { DerivationCacheService } from './derivationCacheService';
+import { logger } from './logger';
+
+// A page of a document being edited: a copy of a source page, or a blank page
+interface PageSlot {
+  sourceIndex?: number;
+  rotation: number;
+  blankSize?: [number, number];
+}
 
 export class PdfService {
-  constructor(private storageService: StorageService) {}
+  constructor(
+    private storageService: StorageService,
+    private decryptionService: PdfDecryptionService,
+    private derivationCache: DerivationCacheService
+  ) {}
 
   async processPdfTruncation(
     originalKey: string,
-    request: TruncationRequest
+    request: TruncationRequest,
+    options: ProcessingOptions = {}
   ): Promise<FileKeys> {
+    let statusId: string | undefined;
     try {
-      // Set initial processing status
-      await this.storageService.setProcessingStatus(originalKey, {
-        status: 'processing',
-        progress: 0,
-        createdAt: new Date()
+      // Record a new processing run for this source key
+      const run = await this.storageService.createProcessingStatus(originalKey, {
+        jobId: options.jobId,
+        request
       });
+      statusId = run.id;
 
       const originalFile = await this.storageService.getFile(originalKey);
+
+      // The same pages of the same content may have been extracted before; the stored page count
+      // resolves pageRange so that equivalent selections share an entry
+      if (originalFile.pdfSummary) {
+        const pages = this.getPageIndices(request, originalFile.pdfSummary.pageCount).map(index => index + 1);
+        const [cachedKey] = await this.derivationCache.find('truncate', originalFile, { pages }) ?? [];
+        // The cached output may belong to another upload, so this source gets its own file over its contents.
+        // The output can be deleted after the lookup; the pages are then extracted again.
+        const truncatedKey = FileUtils.generateKey();
+        const originalName = FileUtils.getTruncatedFileName(originalFile.originalName);
+        const truncatedFile = cachedKey && this.storageService.shareFile(truncatedKey, cachedKey, {
+          originalName,
+          fileName: `${truncatedKey}_${FileUtils.sanitizeFilename(originalName)}`,
+          kind: 'truncated',
+          parentKey: originalKey,
+          operation: 'truncate'
+        });
+        if (truncatedFile) {
+          await this.storageService.updateProcessingStatus(run.id, {
+            status: 'completed',
+            progress: 100,
+            outputKeys: [truncatedKey],
+            completedAt: new Date()
+          });
+          options.onProgress?.(100);
+          return { originalKey, truncatedKey, pageCount: pages.length, cached: true };
+        }
+      }
       
-      // Load the original PDF
-      const pdfBytes = await fs.readFile(originalFile.filePath);
-      const pdfDoc = await PDFDocument.load(pdfBytes);
+      // Load the original PDF, decrypting it first when it is encrypted
+      const pdfDoc = await this.loadPdf(originalFile, { password: options.password });
       
       const totalPages = pdfDoc.getPageCount();
       
       // Validate page requests
       const pagesToExtract = this.getPageIndices(request, totalPages);
       
-      await this.storageService.updateProcessingStatus(originalKey, {
+      await this.storageService.updateProcessingStatus(run.id, {
         status: 'processing',
         progress: 25
       });
+      options.onProgress?.(25);
 
       // Create new PDF with selected pages
       const newPdfDoc = await PDFDocument.create();
@@ -44,62 +126,625 @@ export class PdfService {
         newPdfDoc.addPage(page);
       });
 
-      await this.storageService.updateProcessingStatus(originalKey, {
+      await this.storageService.updateProcessingStatus(run.id, {
         status: 'processing',
         progress: 75
       });
+      options.onProgress?.(75);
 
       // Save the truncated PDF
       const truncatedPdfBytes = await newPdfDoc.save();
-      const truncatedKey = FileUtils.generateKey();
-      const truncatedFileName = `${truncatedKey}_${FileUtils.getTruncatedFileName(originalFile.originalName)}`;
-      const truncatedFilePath = FileUtils.getProcessedPath(truncatedFileName);
-
-      await fs.writeFile(truncatedFilePath, truncatedPdfBytes);
-
-      // Store truncated file info
-      await this.storageService.storeFile(
-        truncatedKey,
+      const truncatedFile = await this.storeDerivedPdf(
+        truncatedPdfBytes,
         FileUtils.getTruncatedFileName(originalFile.originalName),
-        truncatedFileName,
-        truncatedFilePath,
-        truncatedPdfBytes.length,
-        'application/pdf'
+        { kind: 'truncated', parentKey: originalKey, operation: 'truncate' }
       );
+      const truncatedKey = truncatedFile.key;
+      this.derivationCache.record('truncate', originalFile, { pages: pagesToExtract.map(index => index + 1) }, [truncatedKey]);
 
       // Update processing status to completed
-      await this.storageService.updateProcessingStatus(originalKey, {
+      await this.storageService.updateProcessingStatus(run.id, {
         status: 'completed',
         progress: 100,
+        outputKeys: [truncatedKey],
         completedAt: new Date()
       });
 
       return {
         originalKey,
-        truncatedKey
+        truncatedKey,
+        pageCount: pagesToExtract.length
       };
 
     } catch (error) {
       // Update processing status to error
-      await this.storageService.updateProcessingStatus(originalKey, {
-        status: 'error',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date()
-      });
+      if (statusId) {
+        await this.storageService.updateProcessingStatus(statusId, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date()
+        });
+      }
       
       throw error;
     }
   }
 
-  private getPageIndices(request: TruncationRequest, totalPages: number): number[] {
-    if (request.pages) {
-      // Validate individual pages
-      const invalidPages = request.pages.filter(page => page < 1 || page > totalPages);
-      if (invalidPages.length > 0) {
-        throw new ValidationError(
-          `Invalid page numbers: ${invalidPages.join(', ')}. PDF has ${totalPages} pages.`
+  /**
+   * Combines page selections from several stored PDFs into one new PDF, in the order given.
+   * The merged file records the first source as its parent.
+   */
+  async mergePdfs(request: MergeRequest): Promise<MergeResult> {
+    const mergedDoc = await PDFDocument.create();
+    const outlineEntries: OutlineEntry[] = [];
+    const sources: MergeResult['sources'] = [];
+
+    for (const [index, source] of request.sources.entries()) {
+      const sourceFile = await this.storageService.getFile(source.key);
+      const sourceDoc = await this.loadPdf(sourceFile);
+
+      let pageIndices: number[];
+      try {
+        pageIndices = this.getPageIndices(source, sourceDoc.getPageCount(), true);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(`Source ${index + 1} (${source.key}): ${error.message}`);
+        }
+        throw error;
+      }
+
+      const startPage = mergedDoc.getPageCount() + 1;
+      const copiedPages = await mergedDoc.copyPages(sourceDoc, pageIndices);
+      copiedPages.forEach((page) => {
+        mergedDoc.addPage(page);
+      });
+
+      outlineEntries.push({
+        title: path.basename(sourceFile.originalName, path.extname(sourceFile.originalName)),
+        pageIndex: startPage - 1
+      });
+      sources.push({ key: source.key, startPage, pageCount: pageIndices.length });
+    }
+
+    if (request.outline) {
+      addOutline(mergedDoc, outlineEntries);
+    }
+
+    const mergedFile = await this.storeDerivedPdf(
+      await mergedDoc.save(),
+      FileUtils.withPdfExtension(request.outputName || 'merged.pdf'),
+      { kind: 'merged', parentKey: request.sources[0].key, operation: 'merge' }
+    );
+    logger.info({ fileKey: mergedFile.key, sourceCount: sources.length }, 'Merged PDFs into a new file');
+
+    return {
+      key: mergedFile.key,
+      originalName: mergedFile.originalName,
+      size: mergedFile.size,
+      pageCount: mergedDoc.getPageCount(),
+      sources
+    };
+  }
+
+  /**
+   * Splits a stored PDF into consecutive parts, either every N pages, at explicit
+   * break pages, or at the pages its top-level bookmarks point to.
+   */
+  async splitPdf(originalKey: string, request: SplitRequest): Promise<SplitResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    const pdfDoc = await this.loadPdf(originalFile);
+    const totalPages = pdfDoc.getPageCount();
+
+    const sections = this.getSplitSections(pdfDoc, request, totalPages);
+    const baseName = request.outputName
+      ? path.basename(request.outputName, path.extname(request.outputName))
+      : path.basename(originalFile.originalName, path.extname(originalFile.originalName));
+    const digits = Math.max(3, sections.length.toString().length);
+
+    const parts: SplitPart[] = [];
+    for (const [index, section] of sections.entries()) {
+      const partDoc = await PDFDocument.create();
+      const pageIndices = Array.from({ length: section.end - section.start }, (_, i) => section.start + i);
+      const copiedPages = await partDoc.copyPages(pdfDoc, pageIndices);
+      copiedPages.forEach((page) => {
+        partDoc.addPage(page);
+      });
+
+      const number = (index + 1).toString().padStart(digits, '0');
+      const name = section.title
+        ? `${baseName}_${number}_${FileUtils.sanitizeFilename(section.title)}.pdf`
+        : `${baseName}_part_${number}.pdf`;
+      const partFile = await this.storeDerivedPdf(
+        await partDoc.save(),
+        name,
+        { kind: 'split', parentKey: originalKey, operation: 'split' }
+      );
+
+      parts.push({
+        key: partFile.key,
+        originalName: partFile.originalName,
+        startPage: section.start + 1,
+        endPage: section.end,
+        pageCount: pageIndices.length,
+        ...(section.title !== undefined && { title: section.title })
+      });
+    }
+
+    logger.info({ fileKey: originalKey, mode: request.mode, partCount: parts.length }, 'Split PDF into parts');
+    return { originalKey, parts };
+  }
+
+  // Returns [start, end) page index spans covering the whole document
+  private getSplitSections(
+    pdfDoc: PDFDocument,
+    request: SplitRequest,
+    totalPages: number
+  ): { start: number; end: number; title?: string }[] {
+    let starts: { index: number; title?: string }[];
+
+    switch (request.mode) {
+      case 'every': {
+        const every = request.every as number;
+        starts = [];
+        for (let i = 0; i < totalPages; i += every) {
+          starts.push({ index: i });
+        }
+        break;
+      }
+      case 'breaks': {
+        const breaks = [...(request.breaks as number[])].sort((a, b) => a - b);
+        this.assertPagesInRange(breaks, totalPages);
+        starts = [{ index: 0 }, ...breaks.map(page => ({ index: page - 1 }))];
+        break;
+      }
+      case 'outline': {
+        const entries = readTopLevelOutline(pdfDoc)
+          .filter(entry => entry.pageIndex >= 0 && entry.pageIndex < totalPages)
+          .sort((a, b) => a.pageIndex - b.pageIndex);
+        if (entries.length === 0) {
+          throw new ValidationError('PDF has no top-level bookmarks to split at');
+        }
+        // Several bookmarks on one page start a single part, named after the first of them
+        starts = entries
+          .filter((entry, i) => i === 0 || entry.pageIndex !== entries[i - 1].pageIndex)
+          .map(entry => ({ index: entry.pageIndex, title: entry.title }));
+        // Pages before the first bookmark become their own untitled part
+        if (starts[0].index > 0) {
+          starts.unshift({ index: 0 });
+        }
+        break;
+      }
+    }
+
+    return starts.map((start, i) => ({
+      start: start.index,
+      end: i + 1 < starts.length ? starts[i + 1].index : totalPages,
+      title: start.title
+    }));
+  }
+
+  /**
+   * Applies an ordered list of page operations and writes the result to a new derived file.
+   * The operations are first applied to a lightweight page list, then the output
+   * document is built from it in one pass.
+   */
+  async editPdf(originalKey: string, request: EditRequest): Promise<EditResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    const pdfDoc = await this.loadPdf(originalFile);
+
+    let slots: PageSlot[] = pdfDoc.getPages().map((_, index) => ({ sourceIndex: index, rotation: 0 }));
+
+    request.operations.forEach((operation, index) => {
+      try {
+        slots = this.applyEditOperation(slots, operation);
+        if (slots.length > config.maxEditPages) {
+          throw new ValidationError(`The result would have ${slots.length} pages. At most ${config.maxEditPages} are allowed.`);
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(`Operation ${index + 1} (${operation.op}): ${error.message}`);
+        }
+        throw error;
+      }
+    });
+
+    const editedDoc = await PDFDocument.create();
+    const sourceIndices = slots
+      .filter(slot => slot.sourceIndex !== undefined)
+      .map(slot => slot.sourceIndex as number);
+    const copiedPages = await editedDoc.copyPages(pdfDoc, sourceIndices);
+
+    let copiedIndex = 0;
+    for (const slot of slots) {
+      const page = slot.sourceIndex !== undefined
+        ? editedDoc.addPage(copiedPages[copiedIndex++])
+        : editedDoc.addPage(slot.blankSize);
+      if (slot.rotation !== 0) {
+        page.setRotation(degrees((((page.getRotation().angle + slot.rotation) % 360) + 360) % 360));
+      }
+    }
+
+    const editedFile = await this.storeDerivedPdf(
+      await editedDoc.save(),
+      FileUtils.withPdfExtension(request.outputName || FileUtils.getDerivedFileName(originalFile.originalName, 'edited')),
+      { kind: 'edited', parentKey: originalKey, operation: 'edit' }
+    );
+    logger.info({ fileKey: originalKey, editedKey: editedFile.key, operationCount: request.operations.length }, 'Edited PDF pages');
+
+    return {
+      originalKey,
+      key: editedFile.key,
+      originalName: editedFile.originalName,
+      size: editedFile.size,
+      pageCount: editedDoc.getPageCount()
+    };
+  }
+
+  /**
+   * Writes document info entries, and optionally a matching XMP packet.
+   * The result is a new derived file unless the request asks for the file to be updated in place.
+   */
+  async updateMetadata(key: string, request: MetadataRequest): Promise<MetadataResult> {
+    const file = await this.storageService.getFile(key);
+    if (request.inPlace && file.pdfSummary?.isEncrypted) {
+      // Saving the decrypted document over the file would silently remove its encryption
+      throw new ValidationError(`File ${key} is encrypted and cannot be updated in place`);
+    }
+    // Keep pdf-lib from stamping its own Producer and dates over the ones being written
+    const pdfDoc = await this.loadPdf(file, { updateMetadata: false });
+
+    const info = { ...request.info };
+    if (info.modificationDate === undefined) {
+      info.modificationDate = new Date();
+    }
+    applyDocumentInfo(pdfDoc, info, request.custom);
+
+    if (request.xmp) {
+      writeXmpMetadata(pdfDoc, describePdf(pdfDoc).documentInfo);
+    }
+    const updatedBytes = await pdfDoc.save();
+    const summary = describePdf(pdfDoc, updatedBytes);
+
+    if (request.inPlace) {
+      // Write a complete new file and then swap it in, so a failed write never leaves a truncated file
+      const tempPath = FileUtils.getProcessedPath(`${FileUtils.generateKey()}.tmp`);
+      await fs.writeFile(tempPath, updatedBytes);
+      try {
+        await this.storageService.updateFileContents(key, tempPath, updatedBytes.length, summary);
+      } finally {
+        await FileUtils.deleteFile(tempPath);
+      }
+      logger.info({ fileKey: key, size: updatedBytes.length }, 'Updated PDF metadata in place');
+
+      return {
+        originalKey: key,
+        key,
+        originalName: file.originalName,
+        size: updatedBytes.length,
+        inPlace: true,
+        documentInfo: summary.documentInfo
+      };
+    }
+
+    const updatedFile = await this.storeDerivedPdf(
+      updatedBytes,
+      FileUtils.withPdfExtension(request.outputName || file.originalName),
+      { kind: 'edited', parentKey: key, operation: 'metadata' }
+    );
+    logger.info({ fileKey: key, updatedKey: updatedFile.key }, 'Wrote PDF metadata to a new file');
+
+    return {
+      originalKey: key,
+      key: updatedFile.key,
+      originalName: updatedFile.originalName,
+      size: updatedFile.size,
+      inPlace: false,
+      documentInfo: summary.documentInfo
+    };
+  }
+
+  /**
+   * Draws a text or image stamp on the selected pages (all pages by default)
+   * and writes the result to a new derived file.
+   */
+  async stampPdf(originalKey: string, request: StampRequest): Promise<StampResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    const pdfDoc = await this.loadPdf(originalFile);
+    const totalPages = pdfDoc.getPageCount();
+    const pageIndices = [...new Set(this.getPageIndices(request, totalPages, true))];
+
+    const layout: StampLayout = {
+      position: request.position ?? 'center',
+      margin: request.margin ?? 36,
+      offsetX: request.offsetX ?? 0,
+      offsetY: request.offsetY ?? 0,
+      rotation: request.rotation ?? 0,
+      opacity: request.opacity ?? 1
+    };
+
+    let imageContent: StampContent | undefined;
+    if (request.image) {
+      const image = await this.embedStampImage(pdfDoc, request.image);
+      const scale = request.image.scale ?? 1;
+      // A single given dimension keeps the image's aspect ratio
+      const width = request.image.width ?? (request.image.height ? image.width * request.image.height / image.height : image.width * scale);
+      const height = request.image.height ?? width * image.height / image.width;
+      imageContent = { type: 'image', image, width, height };
+    }
+    const font = request.text !== undefined ? await pdfDoc.embedFont(request.font ?? 'Helvetica') : undefined;
+    const date = new Date().toISOString().slice(0, 10);
+
+    for (const pageIndex of pageIndices) {
+      const content: StampContent = imageContent ?? {
+        type: 'text',
+        text: fillPlaceholders(request.text as string, { page: pageIndex + 1, total: totalPages, date }),
+        font: font as PDFFont,
+        fontSize: request.fontSize ?? 12,
+        color: hexToRgb(request.color ?? '#000000')
+      };
+
+      try {
+        drawStamp(pdfDoc.getPage(pageIndex), content, layout);
+      } catch (error) {
+        // Standard fonts only cover WinAnsi characters
+        throw new ValidationError(`Cannot stamp page ${pageIndex + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const stampedFile = await this.storeDerivedPdf(
+      await pdfDoc.save(),
+      FileUtils.withPdfExtension(request.outputName || FileUtils.getDerivedFileName(originalFile.originalName, 'stamped')),
+      { kind: 'stamped', parentKey: originalKey, operation: 'stamp' }
+    );
+    logger.info({ fileKey: originalKey, stampedKey: stampedFile.key, pageCount: pageIndices.length }, 'Stamped PDF pages');
+
+    return {
+      originalKey,
+      key: stampedFile.key,
+      originalName: stampedFile.originalName,
+      size: stampedFile.size,
+      pageCount: totalPages,
+      stampedPages: pageIndices.map(index => index + 1)
+    };
+  }
+
+  /**
+   * Assembles images into a new PDF, one image per page. With pageSize 'fit' each page takes
+   * the size of its image; otherwise the image is scaled to fit the page inside the margins.
+   */
+  async createPdfFromImages(images: ImageSource[], request: ImagesToPdfRequest): Promise<ImagesToPdfResult> {
+    const pdfDoc = await PDFDocument.create();
+    const margin = request.margin ?? 0;
+
+    for (const [index, source] of images.entries()) {
+      const bytes = 'objectKey' in source
+        ? await this.storageService.readObject(source.objectKey)
+        : await fs.readFile(source.filePath);
+      let image: PDFImage;
+      try {
+        image = await this.embedImage(pdfDoc, bytes);
+      } catch (error) {
+        throw new ValidationError(`Image ${index + 1} (${source.originalName}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const [pageWidth, pageHeight] = this.getImagePageSize(image, request);
+      const page = pdfDoc.addPage([pageWidth, pageHeight]);
+      const scale = Math.min((pageWidth - 2 * margin) / image.width, (pageHeight - 2 * margin) / image.height);
+      if (scale <= 0) {
+        throw new ValidationError(`Margin ${margin} leaves no room for images on the page`);
+      }
+
+      const width = image.width * scale;
+      const height = image.height * scale;
+      page.drawImage(image, { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height });
+    }
+
+    const defaultName = `${path.basename(images[0].originalName, path.extname(images[0].originalName))}.pdf`;
+    const pdfFile = await this.storeDerivedPdf(
+      await pdfDoc.save(),
+      FileUtils.withPdfExtension(request.outputName || defaultName),
+      { kind: 'assembled', operation: 'from-images' }
+    );
+    logger.info({ fileKey: pdfFile.key, imageCount: images.length }, 'Created PDF from images');
+
+    return {
+      key: pdfFile.key,
+      originalName: pdfFile.originalName,
+      size: pdfFile.size,
+      pageCount: pdfDoc.getPageCount()
+    };
+  }
+
+  private getImagePageSize(image: PDFImage, request: ImagesToPdfRequest): [number, number] {
+    const margin = request.margin ?? 0;
+    if (!request.pageSize || request.pageSize === 'fit') {
+      // One image pixel per point
+      return [image.width + 2 * margin, image.height + 2 * margin];
+    }
+
+    const [shortSide, longSide] = request.pageSize === 'A4' ? PageSizes.A4 : PageSizes.Letter;
+    const landscape = request.orientation === 'landscape'
+      || (request.orientation !== 'portrait' && image.width > image.height);
+    return landscape ? [longSide, shortSide] : [shortSide, longSide];
+  }
+
+  async getFormFields(key: string): Promise<FormField[]> {
+    const file = await this.storageService.getFile(key);
+    return listFormFields(await this.loadPdf(file));
+  }
+
+  /**
+   * Fills form fields from a name/value map, optionally flattening the form,
+   * and writes the result to a new derived file.
+   */
+  async fillForm(originalKey: string, request: FormFillRequest): Promise<FormFillResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    const pdfDoc = await this.loadPdf(originalFile);
+    const form = pdfDoc.getForm();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const values = request.fields ?? {};
+
+    const fieldNames = new Set(form.getFields().map(field => field.getName()));
+    const unknownFields = Object.keys(values).filter(name => !fieldNames.has(name));
+    if (unknownFields.length > 0) {
+      throw new ValidationError(`Unknown form field${unknownFields.length > 1 ? 's' : ''}: ${unknownFields.join(', ')}`);
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+      fillFormField(form.getField(name), value, font);
+    }
+    if (request.flatten) {
+      form.flatten();
+    }
+
+    const filledFile = await this.storeDerivedPdf(
+      await pdfDoc.save(),
+      FileUtils.withPdfExtension(request.outputName || FileUtils.getDerivedFileName(originalFile.originalName, 'filled')),
+      { kind: 'filled', parentKey: originalKey, operation: 'fill' }
+    );
+    logger.info({ fileKey: originalKey, filledKey: filledFile.key, fieldCount: fieldNames.size }, 'Filled PDF form');
+
+    return {
+      originalKey,
+      key: filledFile.key,
+      originalName: filledFile.originalName,
+      size: filledFile.size,
+      filledFields: Object.keys(values),
+      flattened: request.flatten ?? false
+    };
+  }
+
+  private async embedStampImage(pdfDoc: PDFDocument, stampImage: StampImage): Promise<PDFImage> {
+    const bytes = stampImage.key
+      ? await this.storageService.readObject((await this.storageService.getImage(stampImage.key)).objectKey)
+      : Buffer.from(stampImage.data as string, 'base64');
+
+    try {
+      return await this.embedImage(pdfDoc, bytes);
+    } catch (error) {
+      throw new ValidationError(`Stamp image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async embedImage(pdfDoc: PDFDocument, bytes: Buffer): Promise<PDFImage> {
+    // Detect the format from the magic bytes rather than trusting a name or extension
+    if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+      return pdfDoc.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return pdfDoc.embedJpg(bytes);
+    }
+    throw new ValidationError('Image must be a PNG or JPEG');
+  }
+
+  private applyEditOperation(slots: PageSlot[], operation: EditOperation): PageSlot[] {
+    const totalPages = slots.length;
+
+    switch (operation.op) {
+      case 'rotate': {
+        this.assertPagesInRange(operation.pages, totalPages);
+        const rotated = new Set(operation.pages.map(page => page - 1));
+        return slots.map((slot, index) =>
+          rotated.has(index) ? { ...slot, rotation: (slot.rotation + operation.angle) % 360 } : slot
         );
       }
+      case 'move': {
+        this.assertPagesInRange(operation.pages, totalPages);
+        const moved = operation.pages.map(page => slots[page - 1]);
+        const remaining = slots.filter((_, index) => !operation.pages.includes(index + 1));
+        if (operation.to > remaining.length + 1) {
+          throw new ValidationError(
+            `Target position ${operation.to} is invalid. After removing the moved pages the PDF has ${remaining.length} pages.`
+          );
+        }
+        remaining.splice(operation.to - 1, 0, ...moved);
+        return remaining;
+      }
+      case 'delete': {
+        this.assertPagesInRange(operation.pages, totalPages);
+        if (operation.pages.length >= totalPages) {
+          throw new ValidationError('Cannot delete every page of the PDF.');
+        }
+        return slots.filter((_, index) => !operation.pages.includes(index + 1));
+      }
+      case 'duplicate': {
+        this.assertPagesInRange(operation.pages, totalPages);
+        const copies = operation.copies ?? 1;
+        return slots.flatMap((slot, index) =>
+          operation.pages.includes(index + 1) ? Array.from({ length: copies + 1 }, () => ({ ...slot })) : [slot]
+        );
+      }
+      case 'insertBlank': {
+        if (operation.at > totalPages + 1) {
+          throw new ValidationError(`Insert position ${operation.at} is invalid. PDF has ${totalPages} pages.`);
+        }
+        const blankSize: [number, number] = operation.width && operation.height
+          ? [operation.width, operation.height]
+          : PageSizes[operation.size ?? 'A4'];
+        const blanks = Array.from({ length: operation.count ?? 1 }, () => ({ rotation: 0, blankSize }));
+        return [...slots.slice(0, operation.at - 1), ...blanks, ...slots.slice(operation.at - 1)];
+      }
+    }
+  }
+
+  /**
+   * Loads a stored PDF with pdf-lib. pdf-lib cannot decrypt, so encrypted files are loaded
+   * from a copy decrypted by Poppler; without the password this fails with PASSWORD_REQUIRED.
+   */
+  private async loadPdf(
+    file: StoredFile,
+    options: { password?: string; updateMetadata?: boolean } = {}
+  ): Promise<PDFDocument> {
+    const loadOptions = { updateMetadata: options.updateMetadata ?? true };
+    if (file.pdfSummary?.isEncrypted) {
+      const decryptedBytes = await this.storageService.withLocalFile(file.objectKey, filePath =>
+        this.decryptionService.decrypt(filePath, options.password)
+      );
+      return PDFDocument.load(decryptedBytes, loadOptions);
+    }
+
+    const pdfBytes = await this.storageService.readObject(file.objectKey);
+    try {
+      return await PDFDocument.load(pdfBytes, loadOptions);
+    } catch (error) {
+      // Files stored before summaries were recorded are only found to be encrypted here
+      if (error instanceof EncryptedPDFError) {
+        throw new PasswordRequiredError(`File ${file.key} is encrypted. Provide its password.`);
+      }
+      throw error;
+    }
+  }
+
+  // Writes a derived PDF to the processed directory and records it with its lineage
+  private async storeDerivedPdf(
+    pdfBytes: Uint8Array,
+    originalName: string,
+    lineage: StoreFileOptions
+  ): Promise<StoredFile> {
+    const key = FileUtils.generateKey();
+    const fileName = `${key}_${FileUtils.sanitizeFilename(originalName)}`;
+    const filePath = FileUtils.getProcessedPath(fileName);
+
+    await fs.writeFile(filePath, pdfBytes);
+
+    // Re-read the saved bytes so the summary reflects the file exactly as written
+    const pdfSummary = describePdf(await PDFDocument.load(pdfBytes, { updateMetadata: false }), pdfBytes);
+
+    return this.storageService.storeFile(
+      key,
+      originalName,
+      fileName,
+      filePath,
+      pdfBytes.length,
+      'application/pdf',
+      { ...lineage, pdfSummary }
+    );
+  }
+
+  private getPageIndices(request: PageSelection, totalPages: number, allPagesByDefault: boolean = false): number[] {
+    if (request.pages) {
+      // Validate individual pages
+      this.assertPagesInRange(request.pages, totalPages);
       return request.pages.map(page => page - 1); // Convert to 0-based indexing
     }
 
@@ -121,21 +766,93 @@ export class PdfService {
       return pages;
     }
 
+    if (allPagesByDefault) {
+      return Array.from({ length: totalPages }, (_, i) => i);
+    }
+
     throw new ValidationError('Either pages or pageRange must be specified');
   }
 
-  async validatePdf(filePath: string): Promise<{ pageCount: number; isValid: boolean }> {
+  private assertPagesInRange(pages: number[], totalPages: number): void {
+    const invalidPages = pages.filter(page => page < 1 || page > totalPages);
+    if (invalidPages.length > 0) {
+      throw new ValidationError(
+        `Invalid page numbers: ${invalidPages.join(', ')}. PDF has ${totalPages} pages.`
+      );
+    }
+  }
+
+  /**
+   * Returns the stored summary of a file together with the geometry of every page.
+   * Files stored before summaries were recorded get theirs saved on first request.
+   */
+  async getDocumentInfo(key: string): Promise<{ file: StoredFile; summary: PdfSummary; pages: PdfPageInfo[] }> {
+    const file = await this.storageService.getFile(key);
+    const pdfBytes = await this.storageService.readObject(file.objectKey);
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+    let summary = file.pdfSummary;
+    if (!summary) {
+      summary = describePdf(pdfDoc, pdfBytes);
+      await this.storageService.updateFilePdfSummary(key, summary);
+    }
+
+    return { file, summary, pages: describePages(pdfDoc) };
+  }
+
+  /**
+   * Checks that a file is a readable PDF. Encrypted files are accepted, since their page tree
+   * is not encrypted; when a password is given it is checked against the file.
+   */
+  async validatePdf(
+    filePath: string,
+    password?: string
+  ): Promise<{ pageCount: number; isValid: boolean; summary: PdfSummary }> {
+    let pdfBytes: Buffer;
+    let pdfDoc: PDFDocument;
     try {
-      const pdfBytes = await fs.readFile(filePath);
-      const pdfDoc = await PDFDocument.load(pdfBytes);
-      const pageCount = pdfDoc.getPageCount();
-      
-      return {
-        pageCount,
-        isValid: true
-      };
+      pdfBytes = await fs.readFile(filePath);
+      pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
     } catch (error) {
       throw new ProcessingError(`Invalid PDF file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    if (pdfDoc.isEncrypted && password !== undefined) {
+      await this.decryptionService.verifyPassword(filePath, password);
+    }
+
+    return {
+      pageCount: pdfDoc.getPageCount(),
+      isValid: true,
+      summary: describePdf(pdfDoc, pdfBytes)
+    };
+  }
+
+  /**
+   * Writes a decrypted copy of an encrypted PDF to a new derived file.
+   */
+  async decryptPdf(originalKey: string, request: DecryptRequest): Promise<DecryptResult> {
+    const originalFile = await this.storageService.getFile(originalKey);
+    if (!originalFile.pdfSummary?.isEncrypted) {
+      throw new ValidationError(`File ${originalKey} is not encrypted`);
+    }
+
+    const decryptedBytes = await this.storageService.withLocalFile(originalFile.objectKey, filePath =>
+      this.decryptionService.decrypt(filePath, request.password)
+    );
+    const decryptedFile = await this.storeDerivedPdf(
+      decryptedBytes,
+      FileUtils.withPdfExtension(request.outputName || FileUtils.getDerivedFileName(originalFile.originalName, 'decrypted')),
+      { kind: 'decrypted', parentKey: originalKey, operation: 'decrypt' }
+    );
+    logger.info({ fileKey: originalKey, decryptedKey: decryptedFile.key }, 'Decrypted PDF');
+
+    return {
+      originalKey,
+      key: decryptedFile.key,
+      originalName: decryptedFile.originalName,
+      size: decryptedFile.size,
+      pageCount: decryptedFile.pdfSummary?.pageCount ?? 0
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Poppler } from 'node-poppler';
+
+let poppler: Poppler | undefined;
+
+/**
+ * Returns the shared Poppler wrapper, created on first use.
+ */
+export function getPoppler(): Poppler {
+  if (!poppler) {
+    // Check for an environment variable specifying the Poppler binary path.
+    // This makes the code adaptable to different environments.
+    const popplerBinPath = process.env.POPPLER_BIN_PATH_WINDOWS;
+
+    if (popplerBinPath) {
+      console.log(`Using custom Poppler path: ${popplerBinPath}`);
+      poppler = new Poppler(popplerBinPath);
+    } else {
+      console.log('Using Poppler from system PATH.');
+      poppler = new Poppler();
+    }
+  }
+  return poppler;
+}
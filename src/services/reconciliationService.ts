@@ -0,0 +1,236 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { ReconciliationRequest, StoredImage } from '../types';
+import { FileUtils } from '../utils/fileUtils';
+import { ConflictError } from '../utils/errors';
+import { ChunkedUploadService } from './chunkedUploadService';
+import { StorageService } from './storageService';
+import { logger } from './logger';
+
+export type ScannedDirectory = 'uploads' | 'processed' | 'images' | 'thumbnails' | 'upload_sessions';
+
+// A file on disk that no database row refers to
+export interface OrphanedDiskFile {
+  directory: ScannedDirectory;
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+// A database row whose object is gone from storage, or an image whose source PDF record is gone
+export interface MissingRecord {
+  table: 'files' | 'images';
+  key: string;
+  objectKey: string;
+  reason: 'missing_in_storage' | 'missing_source';
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  orphanedFiles: OrphanedDiskFile[];
+  orphanedBytes: number;
+  missingRecords: MissingRecord[];
+  // Disk files left alone because they are younger than minAgeMs
+  skippedRecentCount: number;
+  // What was actually removed; both 0 in a dry run
+  deletedFilesCount: number;
+  deletedRecordsCount: number;
+  startedAt: Date;
+  durationMs: number;
+}
+
+interface DiskEntry {
+  directory: ScannedDirectory;
+  path: string;
+  name: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+/**
+ * Compares the data directories with the files, images and upload_sessions tables and reports
+ * what is out of sync in either direction: files nothing refers to (uploads rejected after multer
+ * wrote them, Poppler output of failed conversions) and rows whose object is gone.
+ * Outside a dry run both kinds are deleted. With the S3 backend the data directories only hold
+ * staging files, so anything left in them counts as orphaned once it is older than minAgeMs.
+ */
+export class ReconciliationService {
+  private running = false;
+
+  constructor(
+    private storageService: StorageService,
+    private chunkedUploadService: ChunkedUploadService
+  ) {}
+
+  async reconcile(request: ReconciliationRequest): Promise<ReconciliationReport> {
+    if (this.running) {
+      throw new ConflictError('A reconciliation is already running');
+    }
+    this.running = true;
+    try {
+      return await this.run(request);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async run({ dryRun, minAgeMs }: ReconciliationRequest): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const cutoff = startedAt.getTime() - minAgeMs;
+    const report: ReconciliationReport = {
+      dryRun,
+      orphanedFiles: [],
+      orphanedBytes: 0,
+      missingRecords: [],
+      skippedRecentCount: 0,
+      deletedFilesCount: 0,
+      deletedRecordsCount: 0,
+      startedAt,
+      durationMs: 0
+    };
+
+    // --- Disk to database: files nothing refers to ---
+    const files = this.storageService.listFiles();
+    const images = this.storageService.listImages();
+    const fileKeys = new Set(files.map(file => file.key));
+    const filePaths = new Set(files.map(file => path.resolve(FileUtils.getObjectPath(file.objectKey))));
+    const imagePaths = new Set(images.map(image => path.resolve(FileUtils.getObjectPath(image.objectKey))));
+    const activeSessionIds = new Set(this.chunkedUploadService.listActiveSessionIds());
+
+    const isReferenced = (entry: DiskEntry): boolean => {
+      switch (entry.directory) {
+        case 'uploads':
+        case 'processed':
+          return filePaths.has(entry.path);
+        case 'images':
+          return imagePaths.has(entry.path);
+        case 'thumbnails':
+          // Cached thumbnails are named `${fileKey}_p<page>_w<width>.<ext>`
+          return fileKeys.has(entry.name.split('_')[0]);
+        case 'upload_sessions':
+          return activeSessionIds.has(path.basename(entry.name, '.part'));
+      }
+    };
+
+    for (const entry of await this.scanDirectories()) {
+      if (isReferenced(entry)) {
+        continue;
+      }
+      if (entry.modifiedAt.getTime() > cutoff) {
+        report.skippedRecentCount++;
+        continue;
+      }
+      const { name, ...orphan } = entry;
+      report.orphanedFiles.push(orphan);
+      report.orphanedBytes += entry.size;
+    }
+
+    // --- Database to storage: rows whose object is gone ---
+    const staleImages: StoredImage[] = [];
+    for (const file of files) {
+      if (!(await this.storageService.objectExists(file.objectKey))) {
+        report.missingRecords.push({ table: 'files', key: file.key, objectKey: file.objectKey, reason: 'missing_in_storage' });
+      }
+    }
+    for (const image of images) {
+      if (!fileKeys.has(image.originalPdfKey)) {
+        report.missingRecords.push({ table: 'images', key: image.key, objectKey: image.objectKey, reason: 'missing_source' });
+        staleImages.push(image);
+      } else if (!(await this.storageService.objectExists(image.objectKey))) {
+        report.missingRecords.push({ table: 'images', key: image.key, objectKey: image.objectKey, reason: 'missing_in_storage' });
+        staleImages.push(image);
+      }
+    }
+
+    if (!dryRun) {
+      await this.deleteOrphans(report, staleImages);
+    }
+
+    report.durationMs = Date.now() - startedAt.getTime();
+    logger.info({
+      dryRun,
+      orphanedFilesCount: report.orphanedFiles.length,
+      orphanedBytes: report.orphanedBytes,
+      missingRecordsCount: report.missingRecords.length,
+      skippedRecentCount: report.skippedRecentCount,
+      deletedFilesCount: report.deletedFilesCount,
+      deletedRecordsCount: report.deletedRecordsCount,
+      durationMs: report.durationMs
+    }, 'Storage reconciliation finished');
+    return report;
+  }
+
+  private async deleteOrphans(report: ReconciliationReport, staleImages: StoredImage[]): Promise<void> {
+    for (const orphan of report.orphanedFiles) {
+      try {
+        await FileUtils.deleteFile(orphan.path);
+        report.deletedFilesCount++;
+      } catch (error) {
+        logger.error({ err: error, filePath: orphan.path }, 'Failed to delete orphaned file');
+      }
+    }
+
+    // Images first: a stale file record takes its images with it
+    for (const image of staleImages) {
+      try {
+        await this.storageService.deleteStaleImage(image);
+        report.deletedRecordsCount++;
+      } catch (error) {
+        logger.error({ err: error, imageKey: image.key }, 'Failed to delete stale image record');
+      }
+    }
+    for (const record of report.missingRecords.filter(missing => missing.table === 'files')) {
+      try {
+        await this.storageService.deleteStaleFile(record.key);
+        report.deletedRecordsCount++;
+      } catch (error) {
+        logger.error({ err: error, fileKey: record.key }, 'Failed to delete stale file record');
+      }
+    }
+  }
+
+  private async scanDirectories(): Promise<DiskEntry[]> {
+    const directories: [ScannedDirectory, string][] = [
+      ['uploads', config.uploadDir],
+      ['processed', config.processedDir],
+      ['images', config.imagesDir],
+      ['thumbnails', config.thumbnailsDir],
+      ['upload_sessions', config.uploadSessionsDir]
+    ];
+
+    const entries: DiskEntry[] = [];
+    const seen = new Set<string>();
+    for (const [directory, dirPath] of directories) {
+      // Directories can be configured to coincide; each one is only scanned once
+      const resolved = path.resolve(dirPath);
+      if (seen.has(resolved)) {
+        continue;
+      }
+      seen.add(resolved);
+
+      let dirents;
+      try {
+        dirents = await fs.readdir(resolved, { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const dirent of dirents) {
+        const filePath = path.join(resolved, dirent.name);
+        // The database may live inside a data directory when paths are customised
+        if (!dirent.isFile() || filePath.startsWith(path.resolve(config.dbPath))) {
+          continue;
+        }
+        const stats = await fs.stat(filePath).catch(() => undefined);
+        if (stats) {
+          entries.push({ directory, path: filePath, name: dirent.name, size: stats.size, modifiedAt: stats.mtime });
+        }
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FileUtils } from '../utils/fileUtils';
+import { createTestDatabase, writeImage, writeUpload } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+import { JobService } from './jobService';
+import { RetentionService } from './retentionService';
+import { StorageService } from './storageService';
+
+function setUp() {
+  const databaseService = createTestDatabase();
+  const storageService = new StorageService(databaseService, new LocalBlobStore());
+  const jobService = new JobService(databaseService);
+  return { storageService, jobService, retentionService: new RetentionService(storageService, jobService) };
+}
+
+async function storeUpload(storageService: StorageService, options: Parameters<StorageService['storeFile']>[6] = {}) {
+  const upload = await writeUpload(`%PDF-1.7 ${FileUtils.generateKey()}`);
+  return storageService.storeFile(upload.key, 'test.pdf', upload.fileName, upload.filePath, upload.size, 'application/pdf', options);
+}
+
+async function storePageImage(storageService: StorageService, originalPdfKey: string) {
+  const image = await writeImage('png bytes');
+  return storageService.storeImage(image.key, {
+    key: image.key,
+    originalPdfKey,
+    originalName: 'page_1.png',
+    fileName: image.fileName,
+    size: image.size,
+    mimeType: 'image/png',
+    pageNumber: 1,
+    format: 'png',
+    createdAt: new Date()
+  }, image.filePath);
+}
+
+async function expire(storageService: StorageService, key: string) {
+  await storageService.setFileExpiry(key, new Date(Date.now() - 1000));
+}
+
+test('deletes expired files with their derived files, images and objects', async () => {
+  const { storageService, retentionService } = setUp();
+  const original = await storeUpload(storageService);
+  const truncated = await storeUpload(storageService, { kind: 'truncated', parentKey: original.key, operation: 'truncate' });
+  const image = await storePageImage(storageService, truncated.key);
+  const kept = await storeUpload(storageService);
+  await expire(storageService, original.key);
+
+  const result = await retentionService.sweepExpiredFiles();
+
+  assert.deepEqual([...result.deletedKeys].sort(), [original.key, truncated.key].sort());
+  assert.equal(result.images, 1);
+  assert.equal(result.bytes, original.size + truncated.size + image.size);
+  assert.deepEqual(storageService.listFiles().map(file => file.key), [kept.key]);
+  for (const objectKey of [original.objectKey, truncated.objectKey, image.objectKey]) {
+    assert.equal(await FileUtils.fileExists(FileUtils.getObjectPath(objectKey)), false, objectKey);
+  }
+  assert.equal(await FileUtils.fileExists(FileUtils.getObjectPath(kept.objectKey)), true);
+});
+
+test('keeps expired files while a job uses them or a file derived from them', async () => {
+  const { storageService, jobService, retentionService } = setUp();
+  const original = await storeUpload(storageService);
+  const truncated = await storeUpload(storageService, { kind: 'truncated', parentKey: original.key, operation: 'truncate' });
+  await expire(storageService, original.key);
+  const job = jobService.enqueue('convert', truncated.key, { pages: [1] });
+
+  const skipped = await retentionService.sweepExpiredFiles();
+  assert.deepEqual(skipped.deletedKeys, []);
+  assert.deepEqual(skipped.skippedKeys, [original.key]);
+
+  jobService.claimNextJob();
+  jobService.completeJob(job.id, {});
+  const swept = await retentionService.sweepExpiredFiles();
+  assert.deepEqual([...swept.deletedKeys].sort(), [original.key, truncated.key].sort());
+});
@@ -0,0 +1,100 @@
+import { config } from '../config';
+import { StoredFile } from '../types';
+import { NotFoundError } from '../utils/errors';
+import { JobService } from './jobService';
+import { StorageService } from './storageService';
+import { logger } from './logger';
+
+export interface RetentionSweepResult {
+  deletedKeys: string[];
+  images: number;
+  bytes: number;
+  // Expired keys kept for now because a job still uses them or a file derived from them
+  skippedKeys: string[];
+}
+
+/**
+ * Deletes files once their expiresAt has passed, together with everything derived from them:
+ * derived files, rendered images, cached thumbnails and processing status rows.
+ * Runs every config.fileSweepInterval.
+ */
+export class RetentionService {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private storageService: StorageService,
+    private jobService: JobService
+  ) {}
+
+  start(): void {
+    this.running = true;
+    this.sweep();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweepExpiredFiles(): Promise<RetentionSweepResult> {
+    const result: RetentionSweepResult = { deletedKeys: [], images: 0, bytes: 0, skippedKeys: [] };
+    const deleted = new Set<string>();
+
+    for (const file of this.storageService.listExpiredFiles()) {
+      // Already removed with an expired ancestor earlier in this sweep
+      if (deleted.has(file.key)) {
+        continue;
+      }
+
+      const files = [...this.storageService.getDescendants(file.key), file];
+      if (files.some(candidate => this.jobService.listActiveJobs(candidate.key).length > 0)) {
+        result.skippedKeys.push(file.key);
+        continue;
+      }
+
+      const images = files.flatMap(candidate => this.storageService.getImagesByOriginalKey(candidate.key));
+      let deletedKeys: string[];
+      try {
+        deletedKeys = await this.storageService.deleteFile(file.key, { cascade: true });
+      } catch (error) {
+        // getFile drops rows whose file has already vanished from disk; other failures are retried next sweep
+        if (!(error instanceof NotFoundError)) {
+          logger.error({ err: error, fileKey: file.key }, 'Failed to delete expired file');
+        }
+        continue;
+      }
+
+      deletedKeys.forEach(key => deleted.add(key));
+      result.deletedKeys.push(...deletedKeys);
+      result.images += images.length;
+      result.bytes += this.sumSizes(files) + this.sumSizes(images);
+    }
+
+    logger.info({
+      deletedCount: result.deletedKeys.length,
+      deletedKeys: result.deletedKeys,
+      deletedImagesCount: result.images,
+      reclaimedBytes: result.bytes,
+      skippedKeys: result.skippedKeys
+    }, 'Expired file sweep finished');
+    return result;
+  }
+
+  private sumSizes(items: Pick<StoredFile, 'size'>[]): number {
+    return items.reduce((total, item) => total + item.size, 0);
+  }
+
+  private sweep(): void {
+    this.sweepExpiredFiles()
+      .catch(error => logger.error({ err: error }, 'Failed to sweep expired files'))
+      .finally(() => {
+        if (this.running) {
+          this.timer = setTimeout(() => this.sweep(), config.fileSweepInterval);
+        }
+      });
+  }
+}
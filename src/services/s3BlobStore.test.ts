@@ -0,0 +1,119 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { signRequest } from '../utils/awsSigV4';
+import { NotFoundError } from '../utils/errors';
+import { writeUpload } from '../test/helpers';
+import { S3BlobStore } from './s3BlobStore';
+
+const credentials = { accessKeyId: 'test-access-key', secretAccessKey: 'test-secret-key' };
+
+/**
+ * A minimal S3 stand-in. It re-signs every request as received with the signed headers it lists
+ * and refuses it unless the signatures match, so what is sent is exactly what was signed.
+ */
+const objects = new Map<string, { body: Buffer; contentType?: string }>();
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks);
+    const authorization = req.headers.authorization ?? '';
+    const signedHeaders = authorization.match(/SignedHeaders=([^,]+)/)?.[1].split(';') ?? [];
+    const amzDate = String(req.headers['x-amz-date']);
+    const expected = signRequest({
+      method: req.method as string,
+      host: String(req.headers.host),
+      path: req.url as string,
+      headers: Object.fromEntries(signedHeaders
+        .filter(name => !['host', 'x-amz-date', 'x-amz-content-sha256'].includes(name))
+        .map(name => [name, String(req.headers[name])])),
+      payloadHash: String(req.headers['x-amz-content-sha256'])
+    }, credentials, 'us-east-1', 's3', new Date(amzDate.replace(/(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z/, '$1-$2-$3T$4:$5:$6Z')));
+    if (expected.authorization !== authorization) {
+      res.writeHead(403).end('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+      return;
+    }
+
+    const key = req.url as string;
+    if (req.method === 'PUT') {
+      if (crypto.createHash('sha256').update(body).digest('hex') !== req.headers['x-amz-content-sha256']) {
+        res.writeHead(400).end('<Error><Code>XAmzContentSHA256Mismatch</Code></Error>');
+        return;
+      }
+      objects.set(key, { body, contentType: req.headers['content-type'] });
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method === 'DELETE') {
+      objects.delete(key);
+      res.writeHead(204).end();
+      return;
+    }
+    const object = objects.get(key);
+    if (!object) {
+      res.writeHead(404).end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code></Error>');
+      return;
+    }
+    res.writeHead(200, { 'content-length': object.body.length, 'last-modified': new Date().toUTCString() });
+    res.end(req.method === 'HEAD' ? undefined : object.body);
+  });
+});
+
+let store: S3BlobStore;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  store = new S3BlobStore({
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    region: 'us-east-1',
+    bucket: 'pdfs',
+    credentials,
+    forcePathStyle: true
+  });
+});
+after(() => server.close());
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+test('puts, reads, stats and deletes an object', async () => {
+  const upload = await writeUpload('%PDF-1.7 stored in s3', 'report (final) $1.pdf');
+  const objectKey = `uploads/${upload.fileName}`;
+
+  await store.put(objectKey, upload.filePath, 'application/pdf');
+  assert.equal(await fs.stat(upload.filePath).catch(() => undefined), undefined);
+  assert.deepEqual([...objects.keys()], [`/pdfs/uploads/${upload.key}_report%20%28final%29%20%241.pdf`]);
+
+  assert.equal((await readAll(await store.getStream(objectKey))).toString(), '%PDF-1.7 stored in s3');
+  assert.equal((await store.stat(objectKey))?.size, upload.size);
+
+  await store.delete(objectKey);
+  assert.equal(await store.stat(objectKey), undefined);
+  await assert.rejects(store.getStream(objectKey), NotFoundError);
+  await store.delete(objectKey);
+});
+
+test('reports a rejected request with the S3 error code', async () => {
+  const upload = await writeUpload('%PDF-1.7');
+  const wrongKey = new S3BlobStore({
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    region: 'us-east-1',
+    bucket: 'pdfs',
+    credentials: { ...credentials, secretAccessKey: 'wrong' },
+    forcePathStyle: true
+  });
+
+  await assert.rejects(wrongKey.put(`uploads/${upload.fileName}`, upload.filePath, 'application/pdf'), (error: unknown) =>
+    error instanceof Error && error.message.endsWith('failed: SignatureDoesNotMatch')
+  );
+  await fs.unlink(upload.filePath);
+});
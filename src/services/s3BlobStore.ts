@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { AwsCredentials, EMPTY_PAYLOAD_HASH, encodePathSegment, signRequest } from '../utils/awsSigV4';
+import { FileUtils } from '../utils/fileUtils';
+import { AppError, NotFoundError } from '../utils/errors';
+import { BlobStat, BlobStore } from './blobStore';
+import { logger } from './logger';
+
+export interface S3BlobStoreOptions {
+  // e.g. http://minio:9000; AWS S3 itself when empty
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  credentials: AwsCredentials;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Keeps objects in an S3-compatible bucket (AWS S3, MinIO, ...). Requests are signed with
+ * Signature Version 4 and streamed in both directions, so objects are never held in memory.
+ */
+export class S3BlobStore implements BlobStore {
+  private baseUrl: URL;
+
+  constructor(private options: S3BlobStoreOptions) {
+    if (!options.bucket) {
+      throw new AppError('S3_BUCKET must be set when STORAGE_BACKEND is s3', 500, 'STORAGE_CONFIG_ERROR');
+    }
+    this.baseUrl = new URL(options.endpoint || `https://s3.${options.region}.amazonaws.com`);
+  }
+
+  async put(objectKey: string, sourcePath: string, contentType: string): Promise<void> {
+    const { size } = await fsp.stat(sourcePath);
+    // Signing the payload hash instead of UNSIGNED-PAYLOAD works with every S3-compatible server
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(sourcePath), hash);
+
+    const response = await this.send('PUT', objectKey, {
+      headers: { 'content-type': contentType, 'content-length': String(size) },
+      payloadHash: hash.digest('hex'),
+      body: fs.createReadStream(sourcePath)
+    });
+    await this.expectSuccess(response, 'PUT', objectKey);
+    await FileUtils.deleteFile(sourcePath);
+    logger.debug({ objectKey, size }, 'Uploaded object to S3');
+  }
+
+  async getStream(objectKey: string): Promise<Readable> {
+    const response = await this.send('GET', objectKey);
+    if (response.statusCode === 404) {
+      response.resume();
+      throw new NotFoundError(`Object ${objectKey} not found`);
+    }
+    await this.expectSuccess(response, 'GET', objectKey, false);
+    return response;
+  }
+
+  async delete(objectKey: string): Promise<void> {
+    const response = await this.send('DELETE', objectKey);
+    if (response.statusCode === 404) {
+      response.resume();
+      return;
+    }
+    await this.expectSuccess(response, 'DELETE', objectKey);
+  }
+
+  async stat(objectKey: string): Promise<BlobStat | undefined> {
+    const response = await this.send('HEAD', objectKey);
+    response.resume();
+    if (response.statusCode === 404) {
+      return undefined;
+    }
+    await this.expectSuccess(response, 'HEAD', objectKey);
+    return {
+      size: Number(response.headers['content-length'] ?? 0),
+      modifiedAt: new Date(response.headers['last-modified'] ?? Date.now())
+    };
+  }
+
+  private send(
+    method: string,
+    objectKey: string,
+    request: { headers?: Record<string, string>; payloadHash?: string; body?: Readable } = {}
+  ): Promise<http.IncomingMessage> {
+    const encodedKey = objectKey.split('/').map(encodePathSegment).join('/');
+    const basePath = this.baseUrl.pathname.replace(/\/$/, '');
+    const host = this.options.forcePathStyle ? this.baseUrl.host : `${this.options.bucket}.${this.baseUrl.host}`;
+    const requestPath = this.options.forcePathStyle
+      ? `${basePath}/${encodePathSegment(this.options.bucket)}/${encodedKey}`
+      : `${basePath}/${encodedKey}`;
+
+    const headers = signRequest(
+      { method, host, path: requestPath, headers: request.headers ?? {}, payloadHash: request.payloadHash ?? EMPTY_PAYLOAD_HASH },
+      this.options.credentials,
+      this.options.region,
+      's3'
+    );
+
+    const client = this.baseUrl.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const outgoing = client.request({
+        protocol: this.baseUrl.protocol,
+        hostname: this.options.forcePathStyle ? this.baseUrl.hostname : `${this.options.bucket}.${this.baseUrl.hostname}`,
+        port: this.baseUrl.port || undefined,
+        method,
+        path: requestPath,
+        headers
+      }, resolve);
+      outgoing.on('error', error => reject(new AppError(`S3 ${method} ${objectKey} failed: ${error.message}`, 502, 'STORAGE_BACKEND_ERROR')));
+
+      if (request.body) {
+        pipeline(request.body, outgoing).catch(reject);
+      } else {
+        outgoing.end();
+      }
+    });
+  }
+
+  // Consumes the body of an error response to report S3's error code
+  private async expectSuccess(response: http.IncomingMessage, method: string, objectKey: string, drain: boolean = true): Promise<void> {
+    const status = response.statusCode ?? 0;
+    if (status >= 200 && status < 300) {
+      if (drain) {
+        response.resume();
+      }
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of response) {
+      body += chunk;
+    }
+    const code = body.match(/<Code>([^<]+)<\/Code>/)?.[1] ?? `HTTP ${status}`;
+    logger.error({ objectKey, method, status, code }, 'S3 request failed');
+    throw new AppError(`S3 ${method} ${objectKey} failed: ${code}`, 502, 'STORAGE_BACKEND_ERROR');
+  }
+}
@@ -0,0 +1,143 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import { FileUtils } from '../utils/fileUtils';
+import { NotFoundError } from '../utils/errors';
+import { createTestDatabase, writeImage, writeUpload } from '../test/helpers';
+import { LocalBlobStore } from './blobStore';
+import { StorageService } from './storageService';
+
+async function storeUpload(storageService: StorageService, options: Parameters<StorageService['storeFile']>[6] = {}) {
+  const upload = await writeUpload(`%PDF-1.7 ${FileUtils.generateKey()}`);
+  return storageService.storeFile(upload.key, 'test.pdf', upload.fileName, upload.filePath, upload.size, 'application/pdf', options);
+}
+
+test('deleting a file without cascade re-parents the files derived from it', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const original = await storeUpload(storageService);
+  const truncated = await storeUpload(storageService, { kind: 'truncated', parentKey: original.key, operation: 'truncate' });
+  const derived = await storeUpload(storageService, { kind: 'stamped', parentKey: truncated.key, operation: 'stamp' });
+
+  assert.deepEqual(await storageService.deleteFile(truncated.key), [truncated.key]);
+
+  assert.equal((await storageService.getFile(derived.key)).parentKey, original.key);
+  assert.deepEqual(storageService.getDerivatives(original.key).map(file => file.key), [derived.key]);
+});
+
+test('a stale file entry is cleaned up with its status rows and children', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const original = await storeUpload(storageService);
+  const truncated = await storeUpload(storageService, { kind: 'truncated', parentKey: original.key, operation: 'truncate' });
+  await storageService.createProcessingStatus(original.key);
+
+  await fs.unlink(FileUtils.getObjectPath(original.objectKey));
+
+  await assert.rejects(storageService.getFile(original.key), NotFoundError);
+  assert.equal(storageService.listFiles().some(file => file.key === original.key), false);
+  assert.deepEqual(await storageService.listProcessingStatuses(original.key), []);
+  assert.equal((await storageService.getFile(truncated.key)).parentKey, undefined);
+});
+
+test('a deduplicated upload gets its own row over the stored contents', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const contents = `%PDF-1.7 ${FileUtils.generateKey()}`;
+  const first = await writeUpload(contents);
+  const stored = await storageService.storeFile(first.key, 'first.pdf', first.fileName, first.filePath, first.size, 'application/pdf', { ttlSeconds: 60 });
+  const second = await writeUpload(contents);
+
+  const shared = await storageService.storeFile(
+    second.key, 'second.pdf', second.fileName, second.filePath, second.size, 'application/pdf', { ttlSeconds: 0, deduplicate: true }
+  );
+
+  assert.equal(shared.deduplicated, true);
+  assert.equal(shared.key, second.key);
+  assert.equal(shared.objectKey, stored.objectKey);
+  assert.equal(await FileUtils.fileExists(second.filePath), false);
+  const file = await storageService.getFile(second.key);
+  assert.equal(file.originalName, 'second.pdf');
+  assert.equal(file.expiresAt, undefined);
+  assert.equal((await storageService.getFile(first.key)).originalName, 'first.pdf');
+});
+
+test('shared contents are deleted with the last file referencing them', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const stored = await storeUpload(storageService);
+  const shared = storageService.shareFile(FileUtils.generateKey(), stored.key, { originalName: 'copy.pdf', fileName: 'copy.pdf' })!;
+
+  await storageService.deleteFile(stored.key);
+  assert.equal(await storageService.objectExists(stored.objectKey), true);
+  assert.equal((await storageService.getFile(shared.key)).objectKey, stored.objectKey);
+
+  await storageService.deleteFile(shared.key);
+  assert.equal(await storageService.objectExists(stored.objectKey), false);
+});
+
+test('replacing the contents of a shared file leaves the other file unchanged', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const stored = await storeUpload(storageService);
+  const shared = storageService.shareFile(FileUtils.generateKey(), stored.key, { originalName: 'copy.pdf', fileName: 'copy.pdf' })!;
+  const before = await storageService.readObject(stored.objectKey);
+
+  const replacement = await writeUpload('%PDF-1.7 replaced');
+  await storageService.updateFileContents(shared.key, replacement.filePath, replacement.size, {
+    pageCount: 1, isEncrypted: false, isTagged: false, hasForms: false, documentInfo: {}
+  });
+
+  const updated = await storageService.getFile(shared.key);
+  assert.notEqual(updated.objectKey, stored.objectKey);
+  assert.equal((await storageService.readObject(updated.objectKey)).toString(), '%PDF-1.7 replaced');
+  assert.deepEqual(await storageService.readObject(stored.objectKey), before);
+});
+
+test('a shared image is listed under its own file and outlives the image it was shared from', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const first = await storeUpload(storageService);
+  const second = await storeUpload(storageService);
+  const page = await writeImage('png');
+  const image = await storageService.storeImage(page.key, {
+    key: page.key, originalPdfKey: first.key, originalName: 'page_1.png', fileName: page.fileName,
+    size: page.size, mimeType: 'image/png', pageNumber: 1, format: 'png', createdAt: new Date()
+  }, page.filePath);
+
+  const [shared] = storageService.shareImages([image.key], second.key)!;
+
+  assert.deepEqual(storageService.getImagesByOriginalKey(second.key).map(listed => listed.key), [shared.key]);
+  await storageService.deleteFile(first.key);
+  assert.equal((await storageService.getImage(shared.key)).objectKey, image.objectKey);
+});
+
+test('an upload whose match is deleted before it can be shared is stored after all', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const contents = `%PDF-1.7 ${FileUtils.generateKey()}`;
+  const first = await writeUpload(contents);
+  await storageService.storeFile(first.key, 'first.pdf', first.fileName, first.filePath, first.size, 'application/pdf');
+  // The match is found, then deleted by another request before the new row is added
+  const findOriginalByHash = storageService.findOriginalByHash.bind(storageService);
+  storageService.findOriginalByHash = async (sha256) => {
+    const match = await findOriginalByHash(sha256);
+    await storageService.deleteFile(first.key);
+    return match;
+  };
+  const second = await writeUpload(contents);
+
+  const stored = await storageService.storeFile(
+    second.key, 'second.pdf', second.fileName, second.filePath, second.size, 'application/pdf', { deduplicate: true }
+  );
+
+  assert.equal(stored.deduplicated, false);
+  assert.equal(await storageService.objectExists(stored.objectKey), true);
+});
+
+test('sharing images adds none of them when one is gone', async () => {
+  const storageService = new StorageService(createTestDatabase(), new LocalBlobStore());
+  const first = await storeUpload(storageService);
+  const second = await storeUpload(storageService);
+  const page = await writeImage('png');
+  const image = await storageService.storeImage(page.key, {
+    key: page.key, originalPdfKey: first.key, originalName: 'page_1.png', fileName: page.fileName,
+    size: page.size, mimeType: 'image/png', pageNumber: 1, format: 'png', createdAt: new Date()
+  }, page.filePath);
+
+  assert.equal(storageService.shareImages([image.key, 'deleted'], second.key), undefined);
+  assert.deepEqual(storageService.getImagesByOriginalKey(second.key), []);
+});
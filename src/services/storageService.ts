@@ -1,20 +1,93 @@
-import { StoredFile, StoredImage, ProcessingStatus } from '../types';
+import {
+  StoredFile,
+  StoredImage,
+  ProcessingStatus,
+  StoreFileOptions,
+  FileKind,
+  FileDerivativeNode,
+  PdfSummary,
+  PdfDocumentInfo,
+  ProcessingKind
+} from '../types';
 import { FileUtils } from '../utils/fileUtils';
-import { NotFoundError, AppError } from '../utils/errors';
+import { config } from '../config';
+import { NotFoundError, AppError, ValidationError } from '../utils/errors';
 import { DatabaseService } from './databaseService';
 import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { pipeline } from 'stream/promises';
+import fs from 'fs';
+import { BlobStore } from './blobStore';
 import { logger } from './logger';
 
-export class StorageService {
+// The fields a caller knows when a new processing run starts
+export interface NewProcessingStatus {
+  jobId?: string;
+  request?: unknown;
+}
+
+// Processing status tables and the kind of run each one records
+const STATUS_KINDS: Record<string, ProcessingKind> = {
+  pdf_processing_status: 'truncation',
+  image_processing_status: 'conversion'
+};
+
+/**
+ * Stores files, images and processing runs. Contents live in the BlobStore under the row's
+ * objectKey; everything else goes through the methods here rather than the filesystem.
+ * Emits 'statusChanged' with the run and its ProcessingKind whenever a processing status
+ * is created or updated.
+ */
+export class StorageService extends EventEmitter {
   private db: Database.Database;
 
-  constructor(databaseService: DatabaseService) {
+  constructor(databaseService: DatabaseService, private blobStore: BlobStore) {
+    super();
     this.db = databaseService.db;
   }
   
   // Helper to convert database rows (with ISO dates) to our object types
   private rowToStoredFile(row: any): StoredFile {
-    return { ...row, createdAt: new Date(row.createdAt) };
+    const { pageCount, pdfVersion, isEncrypted, isTagged, hasForms, documentInfo, ...file } = row;
+    return {
+      ...file,
+      sha256: row.sha256 ?? undefined,
+      parentKey: row.parentKey ?? undefined,
+      operation: row.operation ?? undefined,
+      // Rows stored before the summary columns existed have no page count yet
+      pdfSummary: pageCount === null || pageCount === undefined ? undefined : {
+        pageCount,
+        pdfVersion: pdfVersion ?? undefined,
+        isEncrypted: Boolean(isEncrypted),
+        isTagged: Boolean(isTagged),
+        hasForms: Boolean(hasForms),
+        documentInfo: documentInfo ? StorageService.parseDocumentInfo(documentInfo) : {}
+      },
+      createdAt: new Date(row.createdAt),
+      expiresAt: row.expiresAt ? new Date(row.expiresAt) : undefined
+    };
+  }
+
+  private static parseDocumentInfo(json: string): PdfDocumentInfo {
+    const info = JSON.parse(json);
+    return {
+      ...info,
+      creationDate: info.creationDate ? new Date(info.creationDate) : undefined,
+      modificationDate: info.modificationDate ? new Date(info.modificationDate) : undefined
+    };
+  }
+
+  private pdfSummaryToRow(summary?: PdfSummary) {
+    return {
+      pageCount: summary?.pageCount ?? null,
+      pdfVersion: summary?.pdfVersion ?? null,
+      isEncrypted: summary ? Number(summary.isEncrypted) : null,
+      isTagged: summary ? Number(summary.isTagged) : null,
+      hasForms: summary ? Number(summary.hasForms) : null,
+      documentInfo: summary ? JSON.stringify(summary.documentInfo) : null
+    };
   }
 
   private rowToStoredImage(row: any): StoredImage {
@@ -24,42 +97,170 @@ export class StorageService {
   private rowToProcessingStatus(row: any): ProcessingStatus {
     return {
       ...row,
+      jobId: row.jobId ?? undefined,
+      request: row.request ? JSON.parse(row.request) : undefined,
+      outputKeys: row.outputKeys ? JSON.parse(row.outputKeys) : undefined,
+      progress: row.progress ?? undefined,
       error: row.error ? JSON.parse(row.error) : undefined,
       createdAt: new Date(row.createdAt),
       completedAt: row.completedAt ? new Date(row.completedAt) : undefined,
+      durationMs: row.durationMs ?? undefined,
     };
   }
 
+  /**
+   * Stores a local file under a new key. With `deduplicate`, an upload whose SHA-256 matches a
+   * stored original gets its own row over that original's object: the local file is discarded and
+   * `deduplicated` is set. The row keeps the caller's names and expiry either way.
+   */
   async storeFile(
     key: string,
     originalName: string,
     fileName: string,
     filePath: string,
     size: number,
-    mimeType: string
-  ): Promise<StoredFile> {
+    mimeType: string,
+    options: StoreFileOptions = {}
+  ): Promise<StoredFile & { deduplicated: boolean }> {
+    const sha256 = options.sha256 ?? await FileUtils.hashFile(filePath);
+
+    if (options.deduplicate) {
+      const existing = await this.findOriginalByHash(sha256);
+      // Undefined when the match was deleted in the meantime, in which case the upload is stored after all
+      const file = existing && this.shareFile(key, existing.key, { ...options, originalName, fileName, kind: 'original' });
+      if (file) {
+        await FileUtils.deleteFile(filePath);
+        logger.info({ fileKey: key, sharedWithKey: existing.key, sha256 }, 'Upload matches a stored file; sharing its contents');
+        return { ...file, deduplicated: true };
+      }
+    }
+
+    const objectKey = FileUtils.getObjectKey(filePath);
+    await this.blobStore.put(objectKey, filePath, mimeType);
+
     const file: StoredFile = {
-      key, originalName, fileName, filePath, size, mimeType, createdAt: new Date()
+      key, originalName, fileName, objectKey, size, mimeType, sha256,
+      kind: options.kind ?? 'original',
+      parentKey: options.parentKey,
+      operation: options.operation,
+      pdfSummary: options.pdfSummary,
+      createdAt: new Date()
     };
-    
+    file.expiresAt = this.getExpiry(file.createdAt, options.ttlSeconds);
+    this.insertFile(file);
+    logger.info({ fileKey: key, originalName, kind: file.kind, parentKey: file.parentKey, expiresAt: file.expiresAt }, 'Stored new file in database');
+    return { ...file, deduplicated: false };
+  }
+
+  /**
+   * Adds a file under a new key whose contents are those of a stored file. Both rows point at the
+   * same object, which stays in the blob store until the last row referencing it is deleted.
+   * Lineage and expiry come from the options, not from the file whose contents are shared.
+   * Returns undefined when the source file no longer exists.
+   */
+  shareFile(
+    key: string,
+    sourceKey: string,
+    details: StoreFileOptions & { originalName: string; fileName: string }
+  ): StoredFile | undefined {
+    // The source is read in the same transaction that adds the row; see releaseObject
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT * FROM files WHERE key = ?').get(sourceKey);
+      return row ? this.insertSharedFile(key, this.rowToStoredFile(row), details) : undefined;
+    })();
+  }
+
+  private insertSharedFile(
+    key: string,
+    source: StoredFile,
+    details: StoreFileOptions & { originalName: string; fileName: string }
+  ): StoredFile {
+    const file: StoredFile = {
+      key,
+      originalName: details.originalName,
+      fileName: details.fileName,
+      objectKey: source.objectKey,
+      size: source.size,
+      mimeType: source.mimeType,
+      sha256: source.sha256,
+      kind: details.kind ?? 'original',
+      parentKey: details.parentKey,
+      operation: details.operation,
+      pdfSummary: details.pdfSummary ?? source.pdfSummary,
+      createdAt: new Date()
+    };
+    file.expiresAt = this.getExpiry(file.createdAt, details.ttlSeconds);
+    this.insertFile(file);
+    logger.info({ fileKey: key, sharedWithKey: source.key, objectKey: source.objectKey, kind: file.kind, expiresAt: file.expiresAt }, 'Stored file sharing stored contents');
+    return file;
+  }
+
+  private insertFile(file: StoredFile): void {
     const stmt = this.db.prepare(`
-      INSERT INTO files (key, originalName, fileName, filePath, size, mimeType, createdAt)
-      VALUES (@key, @originalName, @fileName, @filePath, @size, @mimeType, @createdAt)
+      INSERT INTO files (
+        key, originalName, fileName, objectKey, size, mimeType, sha256, kind, parentKey, operation,
+        pageCount, pdfVersion, isEncrypted, isTagged, hasForms, documentInfo, createdAt, expiresAt
+      )
+      VALUES (
+        @key, @originalName, @fileName, @objectKey, @size, @mimeType, @sha256, @kind, @parentKey, @operation,
+        @pageCount, @pdfVersion, @isEncrypted, @isTagged, @hasForms, @documentInfo, @createdAt, @expiresAt
+      )
     `);
     
-    stmt.run({ ...file, createdAt: file.createdAt.toISOString() });
-    logger.info({ fileKey: key, originalName }, 'Stored new file in database');
-    return file;
+    const { pdfSummary, ...columns } = file;
+    stmt.run({
+      ...columns,
+      ...this.pdfSummaryToRow(pdfSummary),
+      sha256: file.sha256 ?? null,
+      parentKey: file.parentKey ?? null,
+      operation: file.operation ?? null,
+      createdAt: file.createdAt.toISOString(),
+      expiresAt: file.expiresAt?.toISOString() ?? null
+    });
+  }
+
+  // Stores a rendered image from its local file, which is handed to the blob store
+  async storeImage(key: string, details: Omit<StoredImage, 'objectKey'>, filePath: string): Promise<StoredImage> {
+    const image: StoredImage = { ...details, objectKey: FileUtils.getObjectKey(filePath) };
+    await this.blobStore.put(image.objectKey, filePath, image.mimeType);
+    this.insertImage(image);
+    logger.info({ imageKey: key, originalPdfKey: image.originalPdfKey, pageNumber: image.pageNumber }, 'Stored new image in database');
+    return image;
+  }
+
+  /**
+   * Adds images under new keys over the objects of stored images, like shareFile does for files,
+   * and lists them under `originalPdfKey`. Either all of them are added or, when one of the source
+   * images no longer exists, none are and undefined is returned.
+   */
+  shareImages(sourceKeys: string[], originalPdfKey: string): StoredImage[] | undefined {
+    const select = this.db.prepare('SELECT * FROM images WHERE key = ?');
+    try {
+      return this.db.transaction(() => sourceKeys.map(sourceKey => {
+        const row = select.get(sourceKey);
+        if (!row) {
+          // Rolls back the images added so far
+          throw new NotFoundError(`Image with key ${sourceKey} not found`);
+        }
+        const image: StoredImage = { ...this.rowToStoredImage(row), key: FileUtils.generateKey(), originalPdfKey, createdAt: new Date() };
+        this.insertImage(image);
+        logger.info({ imageKey: image.key, sharedWithKey: sourceKey, originalPdfKey, pageNumber: image.pageNumber }, 'Stored image sharing stored contents');
+        return image;
+      }))();
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return undefined;
+      }
+      throw error;
+    }
   }
 
-  async storeImage(key: string, image: StoredImage): Promise<StoredImage> {
+  private insertImage(image: StoredImage): void {
     const stmt = this.db.prepare(`
-      INSERT INTO images (key, originalPdfKey, originalName, fileName, filePath, size, mimeType, pageNumber, format, createdAt)
-      VALUES (@key, @originalPdfKey, @originalName, @fileName, @filePath, @size, @mimeType, @pageNumber, @format, @createdAt)
+      INSERT INTO images (key, originalPdfKey, originalName, fileName, objectKey, size, mimeType, pageNumber, format, createdAt)
+      VALUES (@key, @originalPdfKey, @originalName, @fileName, @objectKey, @size, @mimeType, @pageNumber, @format, @createdAt)
     `);
     stmt.run({ ...image, createdAt: image.createdAt.toISOString() });
-    logger.info({ imageKey: key, originalPdfKey: image.originalPdfKey, pageNumber: image.pageNumber }, 'Stored new image in database');
-    return image;
   }
 
   async getFile(key: string): Promise<StoredFile> {
@@ -70,11 +271,14 @@ export class StorageService {
       throw new NotFoundError(`File with key ${key} not found`);
     }
 
-    // Verify file still exists on disk
-    if (!(await FileUtils.fileExists(row.filePath))) {
-      logger.warn({ fileKey: key, filePath: row.filePath }, 'Database has stale entry for a file that no longer exists on disk. Cleaning up.');
-      this.db.prepare('DELETE FROM files WHERE key = ?').run(key); // Clean up stale DB entry
-      throw new NotFoundError(`File ${key} no longer exists on disk`);
+    // Verify file still exists in the blob store
+    if (!(await this.objectExists(row.objectKey))) {
+      logger.warn({ fileKey: key, objectKey: row.objectKey }, 'Database has stale entry for a file that no longer exists in storage. Cleaning up.');
+      // Clean up the stale entry like a delete, so its images, status rows and children are handled too
+      await this.deleteFileAssets(this.rowToStoredFile(row)).catch(error =>
+        logger.error({ err: error, fileKey: key }, 'Failed to clean up stale file entry')
+      );
+      throw new NotFoundError(`File ${key} no longer exists in storage`);
     }
 
     return this.rowToStoredFile(row);
@@ -88,35 +292,181 @@ export class StorageService {
       throw new NotFoundError(`Image with key ${key} not found`);
     }
 
-    // Verify image still exists on disk
-    if (!(await FileUtils.fileExists(row.filePath))) {
-      logger.warn({ imageKey: key, filePath: row.filePath }, 'Database has stale entry for an image that no longer exists on disk. Cleaning up.');
+    // Verify image still exists in the blob store
+    if (!(await this.objectExists(row.objectKey))) {
+      logger.warn({ imageKey: key, objectKey: row.objectKey }, 'Database has stale entry for an image that no longer exists in storage. Cleaning up.');
       this.db.prepare('DELETE FROM images WHERE key = ?').run(key); // Clean up stale DB entry
-      throw new NotFoundError(`Image ${key} no longer exists on disk`);
+      throw new NotFoundError(`Image ${key} no longer exists in storage`);
     }
 
     return this.rowToStoredImage(row);
   }
 
-  async deleteFile(key: string): Promise<void> {
-    // First, find all associated image files so we can delete them from disk
-    const imagesToDelete = this.getImagesByOriginalKey(key);
-    
+  /**
+   * Replaces the contents of a file with a local file that was written next to it. The contents go
+   * to a new object and the old one is released, so other files sharing it keep their contents
+   * even if they start sharing it while the new contents are written.
+   */
+  async updateFileContents(key: string, filePath: string, size: number, summary: PdfSummary): Promise<void> {
+    const file = await this.getFile(key);
+    const sha256 = await FileUtils.hashFile(filePath);
+    const objectKey = FileUtils.getObjectKey(
+      FileUtils.getProcessedPath(`${FileUtils.generateKey()}_${FileUtils.sanitizeFilename(file.originalName)}`)
+    );
+    await this.blobStore.put(objectKey, filePath, file.mimeType);
+    this.db.prepare('UPDATE files SET objectKey = ?, size = ?, sha256 = ? WHERE key = ?').run(objectKey, size, sha256, key);
+    await this.updateFilePdfSummary(key, summary);
+    await this.releaseObject(file.objectKey);
+  }
+
+  /**
+   * The oldest unexpired original with this SHA-256 that is still in storage.
+   * Derived files are never matched, so a deduplicated upload always shares an original's object.
+   */
+  async findOriginalByHash(sha256: string): Promise<StoredFile | undefined> {
+    const rows = this.db.prepare(`
+      SELECT * FROM files
+      WHERE sha256 = ? AND kind = 'original' AND (expiresAt IS NULL OR expiresAt > ?)
+      ORDER BY createdAt
+    `).all(sha256, new Date().toISOString()) as StoredFile[];
+
+    for (const row of rows) {
+      if (await this.objectExists(row.objectKey)) {
+        return this.rowToStoredFile(row);
+      }
+    }
+    return undefined;
+  }
+
+  // --- Blob Access Methods ---
+
+  async openObject(objectKey: string): Promise<Readable> {
+    return this.blobStore.getStream(objectKey);
+  }
+
+  async readObject(objectKey: string): Promise<Buffer> {
+    return buffer(await this.blobStore.getStream(objectKey));
+  }
+
+  async objectExists(objectKey: string): Promise<boolean> {
+    return (await this.blobStore.stat(objectKey)) !== undefined;
+  }
+
+  /**
+   * Runs `fn` with the path of a local copy of an object, for tools such as Poppler that only
+   * read files. Backends without local files get a temporary copy that is removed afterwards.
+   */
+  async withLocalFile<T>(objectKey: string, fn: (filePath: string) => Promise<T>): Promise<T> {
+    const localPath = this.blobStore.getLocalPath?.(objectKey);
+    if (localPath) {
+      return fn(localPath);
+    }
+
+    const tempPath = FileUtils.getUploadPath(`${FileUtils.generateKey()}_download`);
+    try {
+      await pipeline(await this.blobStore.getStream(objectKey), fs.createWriteStream(tempPath));
+      return await fn(tempPath);
+    } finally {
+      await FileUtils.deleteFile(tempPath);
+    }
+  }
+
+  async updateFilePdfSummary(key: string, summary: PdfSummary): Promise<void> {
+    this.db.prepare(`
+      UPDATE files SET
+        pageCount = @pageCount,
+        pdfVersion = @pdfVersion,
+        isEncrypted = @isEncrypted,
+        isTagged = @isTagged,
+        hasForms = @hasForms,
+        documentInfo = @documentInfo
+      WHERE key = @key
+    `).run({ key, ...this.pdfSummaryToRow(summary) });
+  }
+
+  /**
+   * Sets when a file expires. `null` keeps it until it is deleted.
+   */
+  async setFileExpiry(key: string, expiresAt: Date | null): Promise<StoredFile> {
+    await this.getFile(key); // Confirms the file exists
+    this.db.prepare('UPDATE files SET expiresAt = ? WHERE key = ?').run(expiresAt?.toISOString() ?? null, key);
+    logger.info({ fileKey: key, expiresAt }, 'Updated file expiry');
+    return this.getFile(key);
+  }
+
+  // Files whose expiry has passed, soonest expired first
+  listExpiredFiles(now: Date = new Date()): StoredFile[] {
+    const stmt = this.db.prepare('SELECT * FROM files WHERE expiresAt IS NOT NULL AND expiresAt <= ? ORDER BY expiresAt');
+    const rows = stmt.all(now.toISOString()) as StoredFile[];
+    return rows.map(this.rowToStoredFile);
+  }
+
+  /**
+   * Same as getFile, but rejects keys whose kind does not match.
+   * Used by routes that only make sense for one kind of file.
+   */
+  async getFileOfKind(key: string, kind: FileKind): Promise<StoredFile> {
+    const file = await this.getFile(key);
+    if (file.kind !== kind) {
+      throw new ValidationError(`File ${key} is of kind '${file.kind}', expected '${kind}'`);
+    }
+    return file;
+  }
+
+  /**
+   * Deletes a file with its images and status rows. With `cascade`, every file derived
+   * from it (directly or transitively) is deleted as well, deepest first; without it, the
+   * files derived from it are re-parented to its own parent.
+   * Returns the keys of all deleted files.
+   */
+  async deleteFile(key: string, options: { cascade?: boolean } = {}): Promise<string[]> {
     const file = await this.getFile(key); // This also confirms the file exists
+    const filesToDelete = options.cascade ? [...this.getDescendants(key), file] : [file];
+
+    for (const fileToDelete of filesToDelete) {
+      await this.deleteFileAssets(fileToDelete);
+    }
+
+    const deletedKeys = filesToDelete.map(deleted => deleted.key);
+    if (deletedKeys.length > 1) {
+      logger.info({ fileKey: key, deletedKeys }, 'Cascade deleted file and its derivatives.');
+    }
+    return deletedKeys;
+  }
+
+  /**
+   * Removes the record of a file that is gone from storage, with its images, thumbnails and status rows.
+   * Unlike deleteFile it does not need the file to exist.
+   */
+  async deleteStaleFile(key: string): Promise<void> {
+    const row = this.db.prepare('SELECT * FROM files WHERE key = ?').get(key);
+    if (!row) {
+      throw new NotFoundError(`File with key ${key} not found`);
+    }
+    await this.deleteFileAssets(this.rowToStoredFile(row));
+  }
+
+  private async deleteFileAssets(file: StoredFile): Promise<void> {
+    const key = file.key;
+    // First, find all associated images so their objects can be released with the file's
+    const imagesToDelete = this.getImagesByOriginalKey(key);
 
     try {
-      // The ON DELETE CASCADE in the DB will handle deleting image *records*.
-      // We must manually delete the physical image files.
-      const imageDeletePromises = imagesToDelete.map(image => FileUtils.deleteFile(image.filePath));
-      await Promise.all(imageDeletePromises);
+      // Cached thumbnails are named after the file key
+      await FileUtils.deleteFilesWithPrefix(FileUtils.getThumbnailsDir(), `${key}_`);
 
-      // Now delete the physical PDF file
-      await FileUtils.deleteFile(file.filePath);
-      
-      // Finally, delete the PDF record from the DB, which triggers the cascade
+      // Delete the records first, so that only objects no other row still shares are deleted.
+      // SQLite only enforces the ON DELETE CASCADE on images when foreign keys are switched on,
+      // so the image records are removed explicitly.
+      // Files derived from this one remain (a cascade deletes them first) and move up to its parent.
+      this.db.prepare('DELETE FROM images WHERE originalPdfKey = ?').run(key);
+      this.db.prepare('UPDATE files SET parentKey = ? WHERE parentKey = ?').run(file.parentKey ?? null, key);
       this.db.prepare('DELETE FROM files WHERE key = ?').run(key);
       this.db.prepare('DELETE FROM pdf_processing_status WHERE key = ?').run(key);
       this.db.prepare('DELETE FROM image_processing_status WHERE key = ?').run(key);
+
+      const objectKeys = new Set([file.objectKey, ...imagesToDelete.map(image => image.objectKey)]);
+      await Promise.all([...objectKeys].map(objectKey => this.releaseObject(objectKey)));
       
       logger.info({ fileKey: key, deletedImagesCount: imagesToDelete.length }, 'Successfully deleted file and associated assets.');
     } catch (error) {
@@ -128,8 +478,8 @@ export class StorageService {
   async deleteImage(key: string): Promise<void> {
     const image = await this.getImage(key); // Confirms image exists
     try {
-      await FileUtils.deleteFile(image.filePath);
       this.db.prepare('DELETE FROM images WHERE key = ?').run(key);
+      await this.releaseObject(image.objectKey);
       logger.info({ imageKey: key }, 'Successfully deleted image.');
     } catch (error) {
       logger.error({ err: error, imageKey: key }, `Failed to delete image`);
@@ -137,6 +487,32 @@ export class StorageService {
     }
   }
 
+  // Removes an image record and whatever is left of its object, without requiring either to be intact
+  async deleteStaleImage(image: StoredImage): Promise<void> {
+    this.db.prepare('DELETE FROM images WHERE key = ?').run(image.key);
+    await this.releaseObject(image.objectKey);
+    logger.info({ imageKey: image.key, originalPdfKey: image.originalPdfKey }, 'Deleted stale image record.');
+  }
+
+  /**
+   * Deduplicated uploads and cached derivations share objects, so each is deleted with its last row.
+   * A row only comes to share an existing object through shareFile or shareImage, which copy it from
+   * a row that still references it within one transaction. Once the count reads 0 no row can start
+   * referencing the object again, so deleting it cannot leave a row without its contents.
+   */
+  private async releaseObject(objectKey: string): Promise<void> {
+    if (this.countObjectReferences(objectKey) === 0) {
+      await this.blobStore.delete(objectKey);
+    }
+  }
+
+  private countObjectReferences(objectKey: string): number {
+    const row = this.db.prepare(`
+      SELECT (SELECT COUNT(*) FROM files WHERE objectKey = ?) + (SELECT COUNT(*) FROM images WHERE objectKey = ?) AS count
+    `).get(objectKey, objectKey) as { count: number };
+    return row.count;
+  }
+
   async deleteImagesByOriginalKey(originalKey: string): Promise<void> {
     const imagesToDelete = this.getImagesByOriginalKey(originalKey);
     const deletePromises = imagesToDelete.map(image => this.deleteImage(image.key));
@@ -144,64 +520,104 @@ export class StorageService {
     logger.info({ originalPdfKey: originalKey, deletedCount: imagesToDelete.length }, 'Deleted all images for original PDF key.');
   }
 
+  // A ttlSeconds of 0 means no expiry; without one the configured default applies
+  private getExpiry(from: Date, ttlSeconds?: number): Date | undefined {
+    const ttl = ttlSeconds !== undefined ? ttlSeconds * 1000 : config.fileTtl;
+    return ttl > 0 ? new Date(from.getTime() + ttl) : undefined;
+  }
+
   // --- Processing Status Methods ---
 
-  private async setStatus(table: string, key: string, status: ProcessingStatus): Promise<void> {
-    const stmt = this.db.prepare(`
-      INSERT INTO ${table} (key, status, progress, error, createdAt, completedAt)
-      VALUES (@key, @status, @progress, @error, @createdAt, @completedAt)
-      ON CONFLICT(key) DO UPDATE SET
-        status = excluded.status,
-        progress = excluded.progress,
-        error = excluded.error,
-        completedAt = excluded.completedAt
-    `);
-    stmt.run({
+  private async createStatus(table: string, key: string, init: NewProcessingStatus): Promise<ProcessingStatus> {
+    const status: ProcessingStatus = {
+      id: FileUtils.generateKey(),
+      key,
+      jobId: init.jobId,
+      request: init.request,
+      status: 'processing',
+      progress: 0,
+      createdAt: new Date()
+    };
+    this.db.prepare(`
+      INSERT INTO ${table} (id, key, jobId, request, status, progress, createdAt)
+      VALUES (@id, @key, @jobId, @request, @status, @progress, @createdAt)
+    `).run({
+      id: status.id,
       key,
+      jobId: status.jobId ?? null,
+      request: status.request !== undefined ? JSON.stringify(status.request) : null,
       status: status.status,
       progress: status.progress,
-      error: status.error ? JSON.stringify(status.error) : null,
       createdAt: status.createdAt.toISOString(),
-      completedAt: status.completedAt ? status.completedAt.toISOString() : null,
     });
+    this.emit('statusChanged', status, STATUS_KINDS[table]);
+    return status;
   }
 
-  private async getStatus(table: string, key: string): Promise<ProcessingStatus> {
-    const row = this.db.prepare(`SELECT * FROM ${table} WHERE key = ?`).get(key);
+  private async getStatus(table: string, id: string): Promise<ProcessingStatus> {
+    const row = this.db.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id);
     if (!row) {
-      throw new NotFoundError(`Processing status for key ${key} not found`);
+      throw new NotFoundError(`Processing status ${id} not found`);
     }
     return this.rowToProcessingStatus(row);
   }
 
-  async setProcessingStatus(key: string, status: ProcessingStatus): Promise<void> {
-    await this.setStatus('pdf_processing_status', key, status);
+  private async updateStatus(table: string, id: string, updates: Partial<ProcessingStatus>): Promise<ProcessingStatus> {
+    const currentStatus = await this.getStatus(table, id);
+    const updatedStatus: ProcessingStatus = { ...currentStatus, ...updates };
+    if (updatedStatus.completedAt) {
+      updatedStatus.durationMs = updatedStatus.completedAt.getTime() - updatedStatus.createdAt.getTime();
+    }
+
+    this.db.prepare(`
+      UPDATE ${table} SET
+        status = @status,
+        progress = @progress,
+        outputKeys = @outputKeys,
+        error = @error,
+        completedAt = @completedAt,
+        durationMs = @durationMs
+      WHERE id = @id
+    `).run({
+      id,
+      status: updatedStatus.status,
+      progress: updatedStatus.progress ?? null,
+      outputKeys: updatedStatus.outputKeys ? JSON.stringify(updatedStatus.outputKeys) : null,
+      error: updatedStatus.error ? JSON.stringify(updatedStatus.error) : null,
+      completedAt: updatedStatus.completedAt ? updatedStatus.completedAt.toISOString() : null,
+      durationMs: updatedStatus.durationMs ?? null,
+    });
+    this.emit('statusChanged', updatedStatus, STATUS_KINDS[table]);
+    return updatedStatus;
   }
-  
-  async getProcessingStatus(key: string): Promise<ProcessingStatus> {
-    return this.getStatus('pdf_processing_status', key);
+
+  private async listStatuses(table: string, key: string): Promise<ProcessingStatus[]> {
+    const rows = this.db.prepare(`SELECT * FROM ${table} WHERE key = ? ORDER BY createdAt DESC`).all(key);
+    return rows.map(this.rowToProcessingStatus);
   }
 
-  async updateProcessingStatus(key: string, updates: Partial<ProcessingStatus>): Promise<ProcessingStatus> {
-    const currentStatus = await this.getProcessingStatus(key);
-    const updatedStatus = { ...currentStatus, ...updates };
-    await this.setProcessingStatus(key, updatedStatus);
-    return updatedStatus;
+  async createProcessingStatus(key: string, init: NewProcessingStatus = {}): Promise<ProcessingStatus> {
+    return this.createStatus('pdf_processing_status', key, init);
   }
 
-  async setImageProcessingStatus(key: string, status: ProcessingStatus): Promise<void> {
-    await this.setStatus('image_processing_status', key, status);
+  async updateProcessingStatus(id: string, updates: Partial<ProcessingStatus>): Promise<ProcessingStatus> {
+    return this.updateStatus('pdf_processing_status', id, updates);
   }
 
-  async getImageProcessingStatus(key: string): Promise<ProcessingStatus> {
-    return this.getStatus('image_processing_status', key);
+  async listProcessingStatuses(key: string): Promise<ProcessingStatus[]> {
+    return this.listStatuses('pdf_processing_status', key);
   }
-  
-  async updateImageProcessingStatus(key: string, updates: Partial<ProcessingStatus>): Promise<ProcessingStatus> {
-    const currentStatus = await this.getImageProcessingStatus(key);
-    const updatedStatus = { ...currentStatus, ...updates };
-    await this.setImageProcessingStatus(key, updatedStatus);
-    return updatedStatus;
+
+  async createImageProcessingStatus(key: string, init: NewProcessingStatus = {}): Promise<ProcessingStatus> {
+    return this.createStatus('image_processing_status', key, init);
+  }
+
+  async updateImageProcessingStatus(id: string, updates: Partial<ProcessingStatus>): Promise<ProcessingStatus> {
+    return this.updateStatus('image_processing_status', id, updates);
+  }
+
+  async listImageProcessingStatuses(key: string): Promise<ProcessingStatus[]> {
+    return this.listStatuses('image_processing_status', key);
   }
   
   // --- List and Helper Methods ---
@@ -212,6 +628,41 @@ export class StorageService {
     return rows.map(this.rowToStoredImage);
   }
 
+  getDerivatives(parentKey: string): StoredFile[] {
+    const stmt = this.db.prepare('SELECT * FROM files WHERE parentKey = ? ORDER BY createdAt');
+    const rows = stmt.all(parentKey) as StoredFile[];
+    return rows.map(this.rowToStoredFile);
+  }
+
+  // All files derived from a key, directly or transitively, deepest first
+  getDescendants(key: string): StoredFile[] {
+    const stmt = this.db.prepare(`
+      WITH RECURSIVE descendants(key, depth) AS (
+        SELECT key, 1 FROM files WHERE parentKey = ?
+        UNION ALL
+        SELECT files.key, descendants.depth + 1 FROM files JOIN descendants ON files.parentKey = descendants.key
+      )
+      SELECT files.* FROM files JOIN descendants ON files.key = descendants.key
+      ORDER BY descendants.depth DESC
+    `);
+    const rows = stmt.all(key) as StoredFile[];
+    return rows.map(this.rowToStoredFile);
+  }
+
+  async getDerivativeTree(key: string): Promise<FileDerivativeNode> {
+    const root = await this.getFile(key);
+    const buildNode = (file: StoredFile): FileDerivativeNode => ({
+      key: file.key,
+      originalName: file.originalName,
+      kind: file.kind,
+      operation: file.operation,
+      size: file.size,
+      createdAt: file.createdAt,
+      children: this.getDerivatives(file.key).map(buildNode)
+    });
+    return buildNode(root);
+  }
+
   listFiles(): StoredFile[] {
     const stmt = this.db.prepare('SELECT * FROM files');
     const rows = stmt.all() as StoredFile[];
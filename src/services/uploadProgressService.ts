@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface UploadProgress {
@@ -8,10 +9,18 @@ export interface UploadProgress {
   error?: string;
 }
 
-export class UploadProgressService {
+/**
+ * Tracks in-memory upload progress. Emits 'progress' with the upload ID and its progress on every change.
+ */
+export class UploadProgressService extends EventEmitter {
   private progressMap = new Map<string, UploadProgress>();
   private cleanupTimers = new Map<string, NodeJS.Timeout>();
 
+  private setProgress(uploadId: string, progress: UploadProgress): void {
+    this.progressMap.set(uploadId, progress);
+    this.emit('progress', uploadId, progress);
+  }
+
   private setCleanupTimer(uploadId: string): void {
     // Clear any existing timer for this ID
     if (this.cleanupTimers.has(uploadId)) {
@@ -27,7 +36,7 @@ export class UploadProgressService {
 
   initiateUpload(): string {
     const uploadId = uuidv4();
-    this.progressMap.set(uploadId, {
+    this.setProgress(uploadId, {
       status: 'pending',
       total: 0,
       loaded: 0,
@@ -41,7 +50,7 @@ export class UploadProgressService {
     if (!this.progressMap.has(uploadId)) {
       throw new Error('Upload ID not found');
     }
-    this.progressMap.set(uploadId, {
+    this.setProgress(uploadId, {
       status: 'uploading',
       total: totalSize,
       loaded: 0,
@@ -54,7 +63,7 @@ export class UploadProgressService {
     const progress = this.progressMap.get(uploadId);
     if (progress && progress.status === 'uploading') {
       const percentage = progress.total > 0 ? Math.round((loadedSize / progress.total) * 100) : 0;
-      this.progressMap.set(uploadId, {
+      this.setProgress(uploadId, {
         ...progress,
         loaded: loadedSize,
         percentage,
@@ -65,7 +74,7 @@ export class UploadProgressService {
   completeUpload(uploadId: string): void {
     const progress = this.progressMap.get(uploadId);
     if (progress) {
-      this.progressMap.set(uploadId, {
+      this.setProgress(uploadId, {
         ...progress,
         status: 'completed',
         loaded: progress.total,
@@ -78,7 +87,7 @@ export class UploadProgressService {
   failUpload(uploadId: string, error: string): void {
     const progress = this.progressMap.get(uploadId);
     if (progress) {
-      this.progressMap.set(uploadId, {
+      this.setProgress(uploadId, {
         ...progress,
         status: 'error',
         error,
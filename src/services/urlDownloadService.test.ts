@@ -0,0 +1,98 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LookupAddress } from 'dns';
+import { ValidationError } from '../utils/errors';
+import { isPublicAddress, UrlDownloadService } from './urlDownloadService';
+
+const requests: { host?: string; url?: string }[] = [];
+const server = http.createServer((req, res) => {
+  requests.push({ host: req.headers.host, url: req.url });
+  if (req.url === '/redirect') {
+    res.writeHead(302, { location: `http://mirror.test:${port}/file.pdf` });
+    res.end();
+    return;
+  }
+  res.writeHead(200, { 'content-type': 'application/pdf' });
+  res.end('%PDF-1.7 remote');
+});
+let port: number;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+after(() => server.close());
+
+// Resolves names from a fixed table and records every lookup
+function createResolver(table: Record<string, string[]>) {
+  const lookups: string[] = [];
+  const resolveHost = async (hostname: string): Promise<LookupAddress[]> => {
+    lookups.push(hostname);
+    return (table[hostname] ?? []).map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  };
+  return { lookups, resolveHost };
+}
+
+test('treats loopback, private, link-local, CGNAT, unspecified and IPv4-mapped addresses as internal', () => {
+  for (const address of [
+    '127.0.0.1', '10.0.0.5', '172.18.0.3', '192.168.1.1', '100.64.0.1', '169.254.169.254', '0.0.0.0',
+    '::', '::1', '::ffff:127.0.0.1', '::ffff:10.0.0.5', '::ffff:8.8.8.8', 'fd00::1', 'fe80::1', 'minio'
+  ]) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test('refuses IP literals of internal addresses in any notation', async () => {
+  const { lookups, resolveHost } = createResolver({});
+  const service = new UrlDownloadService({ resolveHost });
+
+  for (const url of [
+    'http://10.0.0.5/file.pdf',
+    'http://0.0.0.0/file.pdf',
+    'http://[::ffff:127.0.0.1]/file.pdf',
+    'http://[::ffff:7f00:1]/file.pdf',
+    'http://2130706433/file.pdf',
+    'http://0177.0.0.1/file.pdf',
+    'http://0x7f.1/file.pdf'
+  ]) {
+    await assert.rejects(service.download({ url }), ValidationError, url);
+  }
+  assert.deepEqual(lookups, []);
+});
+
+test('refuses names that resolve to an internal address, even among public ones', async () => {
+  const { resolveHost } = createResolver({
+    'minio': ['172.18.0.3'],
+    'db.internal.example': ['10.1.2.3'],
+    'mixed.example': ['93.184.216.34', '127.0.0.1']
+  });
+  const service = new UrlDownloadService({ resolveHost });
+
+  for (const host of ['minio', 'db.internal.example', 'mixed.example']) {
+    await assert.rejects(service.download({ url: `http://${host}:9000/file.pdf` }), (error: unknown) =>
+      error instanceof ValidationError && error.message.startsWith(`Downloads from ${host} are not allowed`)
+    );
+  }
+  assert.equal(requests.length, 0);
+});
+
+test('connects to the checked address and resolves every redirect hop once', async () => {
+  const { lookups, resolveHost } = createResolver({ 'files.test': ['127.0.0.1'], 'mirror.test': ['127.0.0.1'] });
+  const service = new UrlDownloadService({ resolveHost, allowPrivateAddresses: true });
+
+  const file = await service.download({ url: `http://files.test:${port}/redirect` });
+
+  assert.deepEqual(lookups, ['files.test', 'mirror.test']);
+  assert.deepEqual(requests.splice(0), [
+    { host: `files.test:${port}`, url: '/redirect' },
+    { host: `mirror.test:${port}`, url: '/file.pdf' }
+  ]);
+  assert.equal(file.originalName, 'file.pdf');
+  assert.equal(await fs.readFile(file.filePath, 'utf8'), '%PDF-1.7 remote');
+  await fs.unlink(file.filePath);
+});
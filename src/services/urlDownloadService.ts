@@ -0,0 +1,284 @@
+import crypto from 'crypto';
+import dns, { LookupAddress } from 'dns';
+import fs from 'fs';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config';
+import { DownloadedFile, UrlUploadRequest } from '../types';
+import { FileUtils } from '../utils/fileUtils';
+import { AppError, UrlFetchError, ValidationError } from '../utils/errors';
+import { logger } from './logger';
+
+export interface DownloadProgress {
+  onStart?: (totalSize: number) => void;
+  onProgress?: (loaded: number) => void;
+}
+
+export type HostResolver = (hostname: string) => Promise<LookupAddress[]>;
+
+export interface UrlDownloadServiceOptions {
+  allowPrivateAddresses?: boolean;
+  resolveHost?: HostResolver;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Addresses a download must never reach: this host, private networks, link-local (cloud metadata) and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8]
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses are refused whatever they map to. Kept apart because BlockList
+// would also match every plain IPv4 address against this subnet.
+const mappedAddresses = new net.BlockList();
+mappedAddresses.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+// Whether an IP address is a public unicast address that downloads may connect to
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return !blockedAddresses.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    return !blockedAddresses.check(address, 'ipv6') && !mappedAddresses.check(address, 'ipv6');
+  }
+  return false;
+}
+
+const defaultResolveHost: HostResolver = hostname => dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Downloads remote PDFs into the upload directory so they can be stored like a multipart upload.
+ * Every hop of a redirect chain is checked against the host allow/deny lists, and its host is
+ * resolved once and checked for internal addresses. The connection then goes to the checked
+ * addresses, so a DNS answer that changes between check and connect is never used.
+ */
+export class UrlDownloadService {
+  private allowPrivateAddresses: boolean;
+  private resolveHost: HostResolver;
+
+  constructor(options: UrlDownloadServiceOptions = {}) {
+    this.allowPrivateAddresses = options.allowPrivateAddresses ?? config.urlFetchAllowPrivateAddresses;
+    this.resolveHost = options.resolveHost ?? defaultResolveHost;
+  }
+
+  async download(request: UrlUploadRequest, progress: DownloadProgress = {}): Promise<DownloadedFile> {
+    const signal = AbortSignal.timeout(request.timeoutMs ?? config.urlFetchTimeout);
+    const { response, url } = await this.fetchFollowingRedirects(request, signal);
+
+    const contentLength = Number(response.headers['content-length'] ?? 0);
+    if (contentLength > config.maxFileSize) {
+      response.destroy();
+      throw this.tooLargeError();
+    }
+
+    const key = FileUtils.generateKey();
+    const originalName = FileUtils.withPdfExtension(
+      request.filename ?? this.getRemoteFileName(response, url)
+    );
+    const fileName = `${key}_${FileUtils.sanitizeFilename(originalName)}`;
+    const filePath = FileUtils.getUploadPath(fileName);
+
+    progress.onStart?.(contentLength);
+    let loaded = 0;
+    const hash = crypto.createHash('sha256');
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        loaded += chunk.length;
+        if (loaded > config.maxFileSize) {
+          callback(this.tooLargeError());
+          return;
+        }
+        hash.update(chunk);
+        progress.onProgress?.(loaded);
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await FileUtils.ensureDirectoryExists(config.uploadDir);
+      await pipeline(response, counter, fs.createWriteStream(filePath));
+    } catch (error) {
+      await FileUtils.deleteFile(filePath).catch(() => undefined);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new UrlFetchError(`Download from ${request.url} failed: ${this.describeError(error)}`);
+    }
+
+    logger.info({ fileKey: key, sourceUrl: request.url, size: loaded }, 'Downloaded file from URL');
+    return {
+      key,
+      originalName,
+      fileName,
+      filePath,
+      size: loaded,
+      mimeType: 'application/pdf',
+      sha256: hash.digest('hex'),
+      sourceUrl: request.url
+    };
+  }
+
+  private async fetchFollowingRedirects(
+    request: UrlUploadRequest,
+    signal: AbortSignal
+  ): Promise<{ response: IncomingMessage; url: URL }> {
+    let url = new URL(request.url);
+    let headers = request.headers ?? {};
+
+    for (let redirects = 0; ; redirects++) {
+      this.assertHostAllowed(url);
+      const addresses = await this.resolveAllowedAddresses(url, signal);
+
+      let response: IncomingMessage;
+      try {
+        response = await this.get(url, { 'User-Agent': 'n8n-pdf-service/1.0', ...headers }, addresses, signal);
+      } catch (error) {
+        throw new UrlFetchError(`Request to ${url.host} failed: ${this.describeError(error)}`);
+      }
+
+      const status = response.statusCode ?? 0;
+      if (!REDIRECT_STATUSES.has(status)) {
+        if (status < 200 || status >= 300) {
+          response.destroy();
+          throw new UrlFetchError(`Remote server responded with HTTP ${status}`);
+        }
+        return { response, url };
+      }
+
+      response.destroy();
+      const location = response.headers.location;
+      if (!location) {
+        throw new UrlFetchError(`Remote server sent HTTP ${status} without a Location header`);
+      }
+      if (redirects >= config.urlFetchMaxRedirects) {
+        throw new UrlFetchError(`Too many redirects (limit ${config.urlFetchMaxRedirects})`);
+      }
+
+      const next = new URL(location, url);
+      if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+        throw new UrlFetchError(`Refusing to follow redirect to ${next.protocol} URL`);
+      }
+      // Credentials meant for one origin are not passed on to another
+      if (next.origin !== url.origin) {
+        headers = {};
+      }
+      url = next;
+    }
+  }
+
+  /**
+   * Resolves the URL's host (or takes its IP literal, which URL has already normalized from
+   * decimal, octal and hex forms) and refuses it if any address is internal.
+   */
+  private async resolveAllowedAddresses(url: URL, signal: AbortSignal): Promise<LookupAddress[]> {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: LookupAddress[];
+    if (net.isIP(host)) {
+      addresses = [{ address: host, family: net.isIP(host) }];
+    } else {
+      try {
+        addresses = await this.resolveHost(host);
+      } catch (error) {
+        throw new UrlFetchError(`Could not resolve ${host}: ${this.describeError(error)}`);
+      }
+      signal.throwIfAborted();
+    }
+
+    if (addresses.length === 0) {
+      throw new UrlFetchError(`Could not resolve ${host}`);
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked && !this.allowPrivateAddresses) {
+      throw new ValidationError(`Downloads from ${host} are not allowed: it resolves to the internal address ${blocked.address}`);
+    }
+    return addresses;
+  }
+
+  // Sends a GET that connects only to the given, already checked addresses
+  private get(url: URL, headers: Record<string, string>, addresses: LookupAddress[], signal: AbortSignal): Promise<IncomingMessage> {
+    const lookup: net.LookupFunction = (_hostname, options, callback) => {
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+      } else {
+        const match = addresses.find(({ family }) => !options.family || family === options.family) ?? addresses[0];
+        callback(null, match.address, match.family);
+      }
+    };
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.get(url, { headers, lookup, signal }, resolve);
+      req.on('error', reject);
+    });
+  }
+
+  private assertHostAllowed(url: URL): void {
+    const host = url.hostname.toLowerCase();
+    const matches = (pattern: string) => {
+      const normalized = pattern.toLowerCase();
+      return normalized.startsWith('*.')
+        ? host.endsWith(normalized.slice(1)) || host === normalized.slice(2)
+        : host === normalized;
+    };
+
+    if (config.urlFetchDeniedHosts.some(matches)) {
+      throw new ValidationError(`Downloads from host ${host} are not allowed`);
+    }
+    if (config.urlFetchAllowedHosts.length > 0 && !config.urlFetchAllowedHosts.some(matches)) {
+      throw new ValidationError(`Host ${host} is not in the list of allowed download hosts`);
+    }
+  }
+
+  // Content-Disposition first, then the last path segment of the final URL
+  private getRemoteFileName(response: IncomingMessage, url: URL): string {
+    const disposition = response.headers['content-disposition'] ?? '';
+    const encoded = disposition.match(/filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i);
+    if (encoded) {
+      try {
+        return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+      } catch {
+        // Fall through to the plain filename parameter
+      }
+    }
+    const plain = disposition.match(/filename\s*=\s*"?([^";]+)"?/i);
+    if (plain) {
+      return plain[1].trim();
+    }
+    const segment = path.posix.basename(url.pathname);
+    try {
+      return decodeURIComponent(segment) || 'download.pdf';
+    } catch {
+      return segment;
+    }
+  }
+
+  private tooLargeError(): ValidationError {
+    return new ValidationError(`File too large. Maximum size is ${config.maxFileSize} bytes.`);
+  }
+
+  private describeError(error: unknown): string {
+    if (!(error instanceof Error)) {
+      return 'Unknown error';
+    }
+    // An aborted request carries the timeout signal's reason as its cause
+    const cause = (error as { cause?: { name?: string } }).cause;
+    if (error.name === 'TimeoutError' || cause?.name === 'TimeoutError') {
+      return 'timed out';
+    }
+    return (error as NodeJS.ErrnoException).code ?? error.message;
+  }
+}
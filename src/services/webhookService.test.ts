@@ -0,0 +1,140 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { createTestDatabase } from '../test/helpers';
+import { JobService } from './jobService';
+import { WebhookService, WebhookServiceOptions } from './webhookService';
+
+// The receiver answers each path with its status; /hang never answers
+const received: { url?: string; headers: http.IncomingHttpHeaders; body: string }[] = [];
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    received.push({ url: req.url, headers: req.headers, body });
+    if (req.url === '/hang') {
+      return;
+    }
+    res.writeHead(req.url === '/fail' ? 500 : 200);
+    res.end();
+  });
+});
+let port: number;
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+// A service on a fresh database whose clock only moves when the test moves it
+function setUp(path: string, options: Partial<WebhookServiceOptions> = {}) {
+  const databaseService = createTestDatabase();
+  const jobService = new JobService(databaseService);
+  const clock = { now: new Date('2026-01-01T00:00:00Z') };
+  const webhookService = new WebhookService(databaseService, { now: () => clock.now, ...options });
+
+  const queued = jobService.enqueue('truncate', 'a', { pages: [1] }, { callbackUrl: `http://127.0.0.1:${port}${path}` });
+  jobService.claimNextJob();
+  jobService.completeJob(queued.id, { truncatedKey: 'b' });
+  const job = jobService.getJob(queued.id);
+
+  const advance = (ms: number) => {
+    clock.now = new Date(clock.now.getTime() + ms);
+  };
+  const getDelivery = () => webhookService.listDeliveriesForJob(job.id)[0];
+  return { webhookService, job, clock, advance, getDelivery };
+}
+
+test('signs the timestamp and raw body with HMAC-SHA256', () => {
+  const body = JSON.stringify({ event: 'job.completed', jobId: 'j1' });
+  const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+  assert.equal(WebhookService.sign(body, 1700000000, 'secret'), `sha256=${expected}`);
+});
+
+test('a signature does not verify for another timestamp, body or secret', () => {
+  const body = '{"event":"job.failed"}';
+  const signature = WebhookService.sign(body, 1700000000, 'secret');
+
+  assert.notEqual(WebhookService.sign(body, 1700000001, 'secret'), signature);
+  assert.notEqual(WebhookService.sign(body + ' ', 1700000000, 'secret'), signature);
+  assert.notEqual(WebhookService.sign(body, 1700000000, 'other'), signature);
+});
+
+test('posts the signed job result to the callback URL and records the attempt', async () => {
+  const { webhookService, job, clock, getDelivery } = setUp('/ok');
+
+  webhookService.scheduleJobCallback(job);
+  await webhookService.deliverDue();
+
+  const request = received.find(item => item.headers['x-webhook-id'] === getDelivery().id)!;
+  const timestamp = Math.floor(clock.now.getTime() / 1000);
+  assert.equal(request.headers['x-webhook-timestamp'], timestamp.toString());
+  assert.equal(request.headers['x-webhook-signature'], WebhookService.sign(request.body, timestamp, config.webhookSecret));
+  assert.deepEqual(JSON.parse(request.body).result, { truncatedKey: 'b' });
+
+  const delivery = getDelivery();
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.nextAttemptAt, undefined);
+  assert.deepEqual(delivery.attemptLog.map(attempt => [attempt.attempt, attempt.responseStatus, attempt.error]), [[1, 200, undefined]]);
+});
+
+test('retries a non-2xx response with exponential backoff until the attempts run out', async () => {
+  const { webhookService, job, clock, advance, getDelivery } = setUp('/fail', { maxAttempts: 3, retryBaseDelay: 1000 });
+
+  webhookService.scheduleJobCallback(job);
+  await webhookService.deliverDue();
+  assert.equal(getDelivery().nextAttemptAt?.getTime(), clock.now.getTime() + 1000);
+
+  // Not due yet
+  advance(999);
+  await webhookService.deliverDue();
+  assert.equal(getDelivery().attempts, 1);
+
+  advance(1);
+  await webhookService.deliverDue();
+  assert.equal(getDelivery().nextAttemptAt?.getTime(), clock.now.getTime() + 2000);
+
+  advance(2000);
+  await webhookService.deliverDue();
+  const delivery = getDelivery();
+  assert.equal(delivery.status, 'failed');
+  assert.equal(delivery.nextAttemptAt, undefined);
+  assert.equal(delivery.lastError, 'Receiver responded with HTTP 500');
+  assert.deepEqual(delivery.attemptLog.map(attempt => [attempt.attempt, attempt.responseStatus]), [[1, 500], [2, 500], [3, 500]]);
+
+  // A failed delivery is not attempted again
+  advance(60 * 60 * 1000);
+  await webhookService.deliverDue();
+  assert.equal(getDelivery().attempts, 3);
+});
+
+test('caps the retry delay at one hour', async () => {
+  const { webhookService, job, clock, advance, getDelivery } = setUp('/fail', { retryBaseDelay: 40 * 60 * 1000 });
+
+  webhookService.scheduleJobCallback(job);
+  await webhookService.deliverDue();
+  advance(40 * 60 * 1000);
+  await webhookService.deliverDue();
+
+  assert.equal(getDelivery().attempts, 2);
+  assert.equal(getDelivery().nextAttemptAt?.getTime(), clock.now.getTime() + 60 * 60 * 1000);
+});
+
+test('records a receiver that does not answer in time as a failed attempt to retry', async () => {
+  const { webhookService, job, getDelivery } = setUp('/hang', { timeout: 50 });
+
+  webhookService.scheduleJobCallback(job);
+  await webhookService.deliverDue();
+
+  const delivery = getDelivery();
+  assert.equal(delivery.status, 'pending');
+  assert.equal(delivery.attemptLog[0].responseStatus, undefined);
+  assert.match(delivery.attemptLog[0].error ?? '', /timeout|aborted/i);
+});
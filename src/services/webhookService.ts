@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { config } from '../config';
+import { Job, WebhookAttempt, WebhookDelivery, WebhookEvent } from '../types';
+import { FileUtils } from '../utils/fileUtils';
+import { DatabaseService } from './databaseService';
+import { logger } from './logger';
+
+const POLL_INTERVAL = 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+
+export interface WebhookServiceOptions {
+  maxAttempts: number;
+  retryBaseDelay: number;
+  timeout: number;
+  // The current time, which decides when a retry is due
+  now: () => Date;
+}
+
+/**
+ * Delivers signed job callbacks. Each finished job with a callbackUrl gets one delivery,
+ * which is retried with exponential backoff until it succeeds or runs out of attempts.
+ * Deliveries and attempts are persisted, so pending retries survive a restart.
+ */
+export class WebhookService {
+  private db: Database.Database;
+  private inFlight = new Map<string, Promise<void>>();
+  private timer?: NodeJS.Timeout;
+  private options: WebhookServiceOptions;
+
+  constructor(databaseService: DatabaseService, options: Partial<WebhookServiceOptions> = {}) {
+    this.db = databaseService.db;
+    this.options = {
+      maxAttempts: config.webhookMaxAttempts,
+      retryBaseDelay: config.webhookRetryBaseDelay,
+      timeout: config.webhookTimeout,
+      now: () => new Date(),
+      ...options
+    };
+  }
+
+  private rowToDelivery(row: any): WebhookDelivery {
+    return {
+      ...row,
+      payload: JSON.parse(row.payload),
+      nextAttemptAt: row.nextAttemptAt ? new Date(row.nextAttemptAt) : undefined,
+      lastError: row.lastError ?? undefined,
+      createdAt: new Date(row.createdAt),
+      deliveredAt: row.deliveredAt ? new Date(row.deliveredAt) : undefined,
+    };
+  }
+
+  private rowToAttempt(row: any): WebhookAttempt {
+    return {
+      ...row,
+      responseStatus: row.responseStatus ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: new Date(row.createdAt),
+    };
+  }
+
+  /**
+   * Signs a payload as HMAC-SHA256 over `${timestamp}.${body}` with the deployment secret.
+   * Receivers recompute it from the X-Webhook-Timestamp header and the raw body.
+   */
+  static sign(body: string, timestamp: number, secret: string = config.webhookSecret): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  start(): void {
+    this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  scheduleJobCallback(job: Job): WebhookDelivery | undefined {
+    if (!job.callbackUrl) {
+      return undefined;
+    }
+
+    const event: WebhookEvent = job.status === 'completed' ? 'job.completed' : 'job.failed';
+    const now = this.options.now();
+    const delivery: WebhookDelivery = {
+      id: FileUtils.generateKey(),
+      jobId: job.id,
+      url: job.callbackUrl,
+      event,
+      payload: {
+        event,
+        jobId: job.id,
+        type: job.type,
+        status: job.status,
+        sourceKey: job.sourceKey,
+        result: job.result ?? null,
+        error: job.error ?? null,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt ?? null
+      },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now
+    };
+
+    this.db.prepare(`
+      INSERT INTO webhook_deliveries (id, jobId, url, event, payload, status, attempts, nextAttemptAt, createdAt)
+      VALUES (@id, @jobId, @url, @event, @payload, @status, @attempts, @nextAttemptAt, @createdAt)
+    `).run({
+      id: delivery.id,
+      jobId: delivery.jobId,
+      url: delivery.url,
+      event: delivery.event,
+      payload: JSON.stringify(delivery.payload),
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: now.toISOString(),
+      createdAt: now.toISOString(),
+    });
+
+    logger.info({ jobId: job.id, deliveryId: delivery.id, event }, 'Webhook callback scheduled');
+    void this.deliver(delivery);
+    return delivery;
+  }
+
+  listDeliveriesForJob(jobId: string): (WebhookDelivery & { attemptLog: WebhookAttempt[] })[] {
+    const deliveries = this.db.prepare('SELECT * FROM webhook_deliveries WHERE jobId = ? ORDER BY createdAt')
+      .all(jobId)
+      .map(row => this.rowToDelivery(row));
+    const attemptStmt = this.db.prepare('SELECT * FROM webhook_attempts WHERE deliveryId = ? ORDER BY attempt');
+
+    return deliveries.map(delivery => ({
+      ...delivery,
+      attemptLog: attemptStmt.all(delivery.id).map(row => this.rowToAttempt(row))
+    }));
+  }
+
+  private poll(): void {
+    try {
+      void this.deliverDue();
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to poll pending webhook deliveries');
+    }
+
+    this.timer = setTimeout(() => this.poll(), POLL_INTERVAL);
+  }
+
+  /**
+   * Attempts every pending delivery whose next attempt is due, and resolves once those
+   * attempts (and any already in flight) are recorded.
+   */
+  deliverDue(): Promise<void> {
+    const rows = this.db.prepare(`
+      SELECT * FROM webhook_deliveries WHERE status = 'pending' AND nextAttemptAt <= ? ORDER BY nextAttemptAt
+    `).all(this.options.now().toISOString());
+
+    return Promise.all(rows.map(row => this.deliver(this.rowToDelivery(row)))).then(() => undefined);
+  }
+
+  private deliver(delivery: WebhookDelivery): Promise<void> {
+    const inFlight = this.inFlight.get(delivery.id);
+    if (inFlight) {
+      return inFlight;
+    }
+    const attempt = this.attempt(delivery).finally(() => this.inFlight.delete(delivery.id));
+    this.inFlight.set(delivery.id, attempt);
+    return attempt;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const attempt = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(this.options.now().getTime() / 1000);
+    const startedAt = Date.now();
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'n8n-pdf-service-webhook/1.0',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Attempt': attempt.toString(),
+          'X-Webhook-Timestamp': timestamp.toString(),
+          'X-Webhook-Signature': WebhookService.sign(body, timestamp)
+        },
+        body,
+        signal: AbortSignal.timeout(this.options.timeout)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    try {
+      this.recordAttempt(delivery, attempt, Date.now() - startedAt, responseStatus, error);
+    } catch (err) {
+      logger.error({ err, deliveryId: delivery.id }, 'Failed to record webhook attempt');
+    }
+  }
+
+  private recordAttempt(
+    delivery: WebhookDelivery,
+    attempt: number,
+    durationMs: number,
+    responseStatus: number | undefined,
+    error: string | undefined
+  ): void {
+    const now = this.options.now();
+
+    this.db.prepare(`
+      INSERT INTO webhook_attempts (id, deliveryId, attempt, responseStatus, error, durationMs, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(FileUtils.generateKey(), delivery.id, attempt, responseStatus ?? null, error ?? null, durationMs, now.toISOString());
+
+    if (!error) {
+      this.db.prepare(`
+        UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, nextAttemptAt = NULL, lastError = NULL, deliveredAt = ?
+        WHERE id = ?
+      `).run(attempt, now.toISOString(), delivery.id);
+      logger.info({ deliveryId: delivery.id, jobId: delivery.jobId, attempt }, 'Webhook callback delivered');
+      return;
+    }
+
+    if (attempt >= this.options.maxAttempts) {
+      this.db.prepare(`
+        UPDATE webhook_deliveries SET status = 'failed', attempts = ?, nextAttemptAt = NULL, lastError = ?
+        WHERE id = ?
+      `).run(attempt, error, delivery.id);
+      logger.error({ deliveryId: delivery.id, jobId: delivery.jobId, attempt, error }, 'Webhook callback failed permanently');
+      return;
+    }
+
+    // Exponential backoff: base, 2x base, 4x base, ... capped at one hour
+    const delay = Math.min(this.options.retryBaseDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+    const nextAttemptAt = new Date(now.getTime() + delay);
+    this.db.prepare(`
+      UPDATE webhook_deliveries SET attempts = ?, nextAttemptAt = ?, lastError = ?
+      WHERE id = ?
+    `).run(attempt, nextAttemptAt.toISOString(), error, delivery.id);
+    logger.warn({ deliveryId: delivery.id, jobId: delivery.jobId, attempt, error, nextAttemptAt }, 'Webhook callback failed, will retry');
+  }
+}
@@ -0,0 +1,38 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { DatabaseService } from '../services/databaseService';
+import { FileUtils } from '../utils/fileUtils';
+
+// A fresh in-memory database with the full schema
+export function createTestDatabase(): DatabaseService {
+  const databaseService = new DatabaseService(':memory:');
+  databaseService.init();
+  return databaseService;
+}
+
+export async function ensureDataDirectories(): Promise<void> {
+  for (const dirPath of [config.uploadDir, config.processedDir, config.imagesDir, config.thumbnailsDir, config.uploadSessionsDir]) {
+    await FileUtils.ensureDirectoryExists(dirPath);
+  }
+}
+
+// Writes a file into the upload directory the way an upload would, and returns its key and path
+export async function writeUpload(contents: string | Buffer, name: string = 'test.pdf'): Promise<{ key: string; fileName: string; filePath: string; size: number }> {
+  await ensureDataDirectories();
+  const key = FileUtils.generateKey();
+  const fileName = `${key}_${name}`;
+  const filePath = FileUtils.getUploadPath(fileName);
+  await fs.writeFile(filePath, contents);
+  return { key, fileName, filePath, size: Buffer.byteLength(contents) };
+}
+
+// Writes a rendered page into the images directory, as a conversion would before storing it
+export async function writeImage(contents: string | Buffer, name: string = 'page_1.png'): Promise<{ key: string; fileName: string; filePath: string; size: number }> {
+  await ensureDataDirectories();
+  const key = FileUtils.generateKey();
+  const fileName = `${key}_${name}`;
+  const filePath = path.join(config.imagesDir, fileName);
+  await fs.writeFile(filePath, contents);
+  return { key, fileName, filePath, size: Buffer.byteLength(contents) };
+}
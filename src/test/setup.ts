@@ -0,0 +1,11 @@
+// Loaded before every test file by the test script, so config picks up a throwaway data directory
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-service-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.NODE_ENV = 'test';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
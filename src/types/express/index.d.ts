@@ -4,4 +4,10 @@ declare namespace Express {
   export interface Request {
     id?: string; // Optional request ID for logging and tracing
   }
+
+  namespace Multer {
+    export interface File {
+      sha256?: string; // SHA-256 of the uploaded PDF, computed while it is written to disk
+    }
+  }
 }
\ No newline at end of file
@@ -3,9 +3,47 @@ export interface PageRange {
   end?: number;
 }
 
+export interface PageSelection {
+  pages?: number[];
+  pageRange?: PageRange;
+}
+
 export interface TruncationRequest {
   pages?: number[];
   pageRange?: PageRange;
+  callbackUrl?: string;
+  password?: string;
+}
+
+// A source document for a merge, with an optional page selection (all pages when omitted)
+export interface MergeSource extends PageSelection {
+  key: string;
+}
+
+export interface MergeRequest {
+  sources: MergeSource[];
+  outputName?: string;
+  outline?: boolean;
+}
+
+export interface MergeResult {
+  key: string;
+  originalName: string;
+  size: number;
+  pageCount: number;
+  sources: {
+    key: string;
+    startPage: number;
+    pageCount: number;
+  }[];
+}
+
+// A region of the rendered image, in pixels from its top-left corner
+export interface RenderRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export interface ImageConversionRequest {
@@ -13,34 +51,513 @@ export interface ImageConversionRequest {
   pageRange?: PageRange;
   format?: 'png' | 'jpeg' | 'tiff';
   scale?: number;
+  dpi?: number;
+  width?: number;
+  height?: number;
+  color?: 'color' | 'grayscale' | 'monochrome';
+  jpegQuality?: number;
+  transparent?: boolean;
+  box?: 'media' | 'crop';
+  region?: RenderRegion;
+  callbackUrl?: string;
+  password?: string;
+}
+
+export type SplitMode = 'every' | 'breaks' | 'outline';
+
+export interface SplitRequest {
+  mode: SplitMode;
+  every?: number;       // pages per part, for mode 'every'
+  breaks?: number[];    // pages that start a new part, for mode 'breaks'
+  outputName?: string;  // base name of the generated parts
+}
+
+export interface SplitPart {
+  key: string;
+  originalName: string;
+  startPage: number;
+  endPage: number;
+  pageCount: number;
+  title?: string;
+}
+
+export interface SplitResult {
+  originalKey: string;
+  parts: SplitPart[];
+}
+
+export type PageSizeName = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+
+// Page edit operations. Page numbers and positions are 1-based and refer to the
+// document as it stands after the previous operations in the list.
+export type EditOperation =
+  | { op: 'rotate'; pages: number[]; angle: 90 | 180 | 270 }
+  | { op: 'move'; pages: number[]; to: number }
+  | { op: 'delete'; pages: number[] }
+  | { op: 'duplicate'; pages: number[]; copies?: number }
+  | { op: 'insertBlank'; at: number; count?: number; size?: PageSizeName; width?: number; height?: number };
+
+export interface EditRequest {
+  operations: EditOperation[];
+  outputName?: string;
+}
+
+export interface EditResult {
+  originalKey: string;
+  key: string;
+  originalName: string;
+  size: number;
+  pageCount: number;
+}
+
+// Standard info entries to write; null removes an entry
+export interface MetadataInfoUpdate {
+  title?: string | null;
+  author?: string | null;
+  subject?: string | null;
+  keywords?: string | string[] | null;
+  creator?: string | null;
+  producer?: string | null;
+  creationDate?: Date | null;
+  modificationDate?: Date | null;
+}
+
+export interface MetadataRequest {
+  info?: MetadataInfoUpdate;
+  custom?: Record<string, string | null>;
+  xmp?: boolean;
+  inPlace?: boolean;
+  outputName?: string;
+}
+
+export interface MetadataResult {
+  originalKey: string;
+  key: string;
+  originalName: string;
+  size: number;
+  inPlace: boolean;
+  documentInfo: PdfDocumentInfo;
+}
+
+export type StampPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center-left' | 'center' | 'center-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type StampFont =
+  | 'Helvetica' | 'Helvetica-Bold' | 'Helvetica-Oblique'
+  | 'Times-Roman' | 'Times-Bold' | 'Courier' | 'Courier-Bold';
+
+// An image to stamp, either a stored image (e.g. from /convert) or inline base64 PNG/JPEG bytes
+export interface StampImage {
+  key?: string;
+  data?: string;
+  width?: number;
+  height?: number;
+  scale?: number;
+}
+
+export interface StampRequest extends PageSelection {
+  text?: string;
+  image?: StampImage;
+  position?: StampPosition;
+  margin?: number;
+  offsetX?: number;
+  offsetY?: number;
+  rotation?: number;
+  opacity?: number;
+  fontSize?: number;
+  font?: StampFont;
+  color?: string;
+  outputName?: string;
+}
+
+export interface StampResult {
+  originalKey: string;
+  key: string;
+  originalName: string;
+  size: number;
+  pageCount: number;
+  stampedPages: number[];
+}
+
+export type ImagePdfPageSize = 'fit' | 'A4' | 'Letter';
+
+export interface ImagesToPdfRequest {
+  imageKeys?: string[];
+  pageSize?: ImagePdfPageSize;
+  orientation?: 'auto' | 'portrait' | 'landscape';
+  margin?: number;
+  outputName?: string;
+}
+
+// An image file to place on its own page
+// An uploaded image on local disk, or a stored image in the blob store
+export type ImageSource = { originalName: string } & ({ filePath: string } | { objectKey: string });
+
+export interface ImagesToPdfResult {
+  key: string;
+  originalName: string;
+  size: number;
+  pageCount: number;
+}
+
+export interface DecryptRequest {
+  password?: string;
+  outputName?: string;
+}
+
+export interface DecryptResult {
+  originalKey: string;
+  key: string;
+  originalName: string;
+  size: number;
+  pageCount: number;
+}
+
+export interface ThumbnailRequest {
+  page: number;
+  width: number;
+}
+
+export interface UrlUploadRequest {
+  url: string;
+  headers?: Record<string, string>;
+  filename?: string;
+  timeoutMs?: number;
+  password?: string;
+  ttlSeconds?: number;
+  deduplicate?: boolean;
+}
+
+// A remote file written into the upload directory, shaped like the multer file it stands in for
+export interface DownloadedFile {
+  key: string;
+  originalName: string;
+  fileName: string;
+  filePath: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  sourceUrl: string;
+}
+
+export type UploadSessionStatus = 'active' | 'completed';
+
+// A resumable chunked upload. The received bytes live in a part file until the upload is completed.
+export interface UploadSession {
+  id: string;
+  originalName: string;
+  totalSize: number;
+  offset: number;
+  status: UploadSessionStatus;
+  fileKey?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+export interface UploadSessionRequest {
+  filename: string;
+  totalSize: number;
+}
+
+export interface CompleteUploadRequest {
+  password?: string;
+  ttlSeconds?: number;
+  deduplicate?: boolean;
+}
+
+export interface ReconciliationRequest {
+  // Only report what is out of sync; nothing is deleted
+  dryRun: boolean;
+  // Files on disk younger than this are left alone
+  minAgeMs: number;
+}
+
+// Either a new lifetime from now or an absolute expiry; 0 or null keeps the file until deleted
+export interface FileExpiryRequest {
+  ttlSeconds?: number;
+  expiresAt?: Date | null;
+}
+
+export interface ImageArchiveRequest {
+  pages?: number[];
+  format?: 'png' | 'jpeg' | 'tiff';
+}
+
+export interface ArchiveRequest {
+  fileKeys?: string[];
+  imageKeys?: string[];
+  name?: string;
+}
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'optionList' | 'button' | 'signature';
+
+// A field value as read or written: text, checked state, or selected options
+export type FormFieldValue = string | boolean | string[] | null;
+
+export interface FormField {
+  name: string;
+  type: FormFieldType;
+  value: FormFieldValue;
+  options?: string[];
+  page: number | null;
+  readOnly: boolean;
+  required: boolean;
+  multiline?: boolean;
+  maxLength?: number;
+  multiSelect?: boolean;
+  editable?: boolean;
+}
+
+export interface FormFillRequest {
+  fields?: Record<string, FormFieldValue>;
+  flatten?: boolean;
+  outputName?: string;
+}
+
+export interface FormFillResult {
+  originalKey: string;
+  key: string;
+  originalName: string;
+  size: number;
+  filledFields: string[];
+  flattened: boolean;
+}
+
+export type TextExtractionMode = 'plain' | 'raw' | 'layout' | 'words' | 'lines';
+
+export interface TextExtractionRequest extends PageSelection {
+  mode?: TextExtractionMode;
+  password?: string;
+}
+
+// Coordinates are in PDF points with the origin at the top-left of the page
+export interface TextBoundingBox {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export interface TextWord extends TextBoundingBox {
+  text: string;
+}
+
+export interface TextLine extends TextBoundingBox {
+  text: string;
+  words: TextWord[];
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+  width?: number;
+  height?: number;
+  words?: TextWord[];
+  lines?: TextLine[];
+}
+
+export interface TextExtractionResult {
+  originalKey: string;
+  mode: TextExtractionMode;
+  pageCount: number;
+  pages: PageText[];
 }
 
 export interface FileKeys {
   originalKey: string;
   truncatedKey: string;
+  pageCount: number;
+  // Set when the output of an earlier identical request was reused
+  cached?: boolean;
 }
 
 export interface ImageKeys {
   originalKey: string;
   imageKeys: string[];
+  pageCount: number;
+  // Set when the images of an earlier identical request were reused
+  cached?: boolean;
+}
+
+// A stored file or image embedded in a JSON response, for clients such as n8n that carry binary data as base64
+export interface InlineFile {
+  key: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  data: string;
+}
+
+export interface Base64Upload {
+  filename: string;
+  data: string;
 }
 
+// A single truncation or conversion run for a source key
 export interface ProcessingStatus {
+  id: string;
+  key: string;
+  jobId?: string;
+  request?: unknown;
+  outputKeys?: string[];
   status: 'pending' | 'processing' | 'completed' | 'error';
   progress?: number;
   error?: string;
   createdAt: Date;
   completedAt?: Date;
+  durationMs?: number;
+}
+
+// Which processing status table a run belongs to
+export type ProcessingKind = 'truncation' | 'conversion';
+
+export type JobType = 'truncate' | 'convert';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'error';
+
+export interface JobError {
+  code: string;
+  message: string;
+}
+
+export interface Job<TPayload = unknown, TResult = unknown> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  sourceKey: string;
+  payload: TPayload;
+  callbackUrl?: string;
+  // Whether the job was queued with a PDF password; the password itself is never stored
+  hasPassword: boolean;
+  result?: TResult;
+  error?: JobError;
+  progress: number;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export type WebhookEvent = 'job.completed' | 'job.failed';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  id: string;
+  deliveryId: string;
+  attempt: number;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  createdAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  jobId: string;
+  url: string;
+  event: WebhookEvent;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+// Optional hooks passed to the processing services when they run inside a job
+export interface ProcessingOptions {
+  jobId?: string;
+  onProgress?: (progress: number) => void;
+  // Only ever held in memory, never stored with the job or status run
+  password?: string;
+}
+
+// What a stored file is: an upload, or an output derived from another stored file
+export type FileKind = 'original' | 'truncated' | 'merged' | 'split' | 'edited' | 'stamped' | 'filled' | 'assembled' | 'decrypted';
+
+// Entries of the PDF document information dictionary
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: Date;
+  modificationDate?: Date;
+  // Non-standard entries, keyed by their PDF name
+  custom?: Record<string, string>;
+}
+
+// Document-level facts that are saved with the file so listings need not parse it again
+export interface PdfSummary {
+  pageCount: number;
+  pdfVersion?: string;
+  isEncrypted: boolean;
+  isTagged: boolean;
+  hasForms: boolean;
+  documentInfo: PdfDocumentInfo;
+}
+
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageInfo {
+  pageNumber: number;
+  mediaBox: PdfBox;
+  cropBox: PdfBox;
+  rotation: number;
+}
+
+export interface StoreFileOptions {
+  kind?: FileKind;
+  parentKey?: string;
+  operation?: string;
+  pdfSummary?: PdfSummary;
+  // Seconds until the file expires; 0 keeps it until it is deleted. Defaults to config.fileTtl.
+  ttlSeconds?: number;
+  // SHA-256 of the contents when the caller computed it already; otherwise the file is hashed when stored
+  sha256?: string;
+  // Share the contents of a stored original with the same SHA-256, if there is one, instead of storing the file
+  deduplicate?: boolean;
 }
 
 export interface StoredFile {
   key: string;
   originalName: string;
   fileName: string;
-  filePath: string;
+  // Where the contents live in the blob store, e.g. `uploads/<key>_report.pdf`
+  objectKey: string;
   size: number;
   mimeType: string;
+  // Unset for files stored before hashes were recorded
+  sha256?: string;
+  kind: FileKind;
+  parentKey?: string;
+  operation?: string;
+  pdfSummary?: PdfSummary;
   createdAt: Date;
+  // Unset for files that are kept until deleted
+  expiresAt?: Date;
+}
+
+export interface FileDerivativeNode {
+  key: string;
+  originalName: string;
+  kind: FileKind;
+  operation?: string;
+  size: number;
+  createdAt: Date;
+  children: FileDerivativeNode[];
 }
 
 export interface StoredImage {
@@ -48,7 +565,7 @@ export interface StoredImage {
   originalPdfKey: string;
   originalName: string;
   fileName: string;
-  filePath: string;
+  objectKey: string;
   size: number;
   mimeType: string;
   pageNumber: number;
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  host: string;
+  // Already URI-encoded path, e.g. /bucket/uploads/file.pdf
+  path: string;
+  // Every header given here is signed; host, x-amz-date and x-amz-content-sha256 are added
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+export const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+const sha256 = (data: string): string => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: crypto.BinaryLike, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding of one path segment, as AWS expects it
+export const encodePathSegment = (segment: string): string =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns the headers to send,
+ * including Authorization. Query strings are not supported; none of the calls here use one.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: AwsCredentials,
+  region: string,
+  service: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.host,
+    'x-amz-date': amzDate,
+    'x-amz-content-sha256': request.payloadHash
+  };
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = names.map(name => `${name}:${lowerCased[name].trim().replace(/\s+/g, ' ')}\n`).join('');
+  const signedHeaders = names.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    '',
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const scope = `${date}/${region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = [date, region, service, 'aws4_request']
+    .reduce<Buffer>((key, part) => hmac(key, part), Buffer.from(`AWS4${credentials.secretAccessKey}`));
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...lowerCased,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
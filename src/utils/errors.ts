@@ -39,6 +39,12 @@ export class UnauthorizedError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 403, 'FORBIDDEN');
+  }
+}
+
 export class ConflictError extends AppError {
   constructor(message: string) {
     super(message, 409, 'CONFLICT');
@@ -49,4 +55,16 @@ export class ProcessingError extends AppError {
   constructor(message: string) {
     super(message, 422, 'PROCESSING_ERROR');
   }
-}
\ No newline at end of file
+}
+
+export class PasswordRequiredError extends AppError {
+  constructor(message: string = 'This PDF is encrypted. Provide its password.') {
+    super(message, 403, 'PASSWORD_REQUIRED');
+  }
+}
+
+export class UrlFetchError extends AppError {
+  constructor(message: string) {
+    super(message, 502, 'URL_FETCH_FAILED');
+  }
+}
@@ -1,5 +1,8 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config';
 import { AppError } from './errors';
@@ -49,6 +52,13 @@ export class FileUtils {
     }
   }
 
+  // Hex SHA-256 of a file's contents, read as a stream
+  static async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    await pipeline(createReadStream(filePath), hash);
+    return hash.digest('hex');
+  }
+
   static async getFileStats(filePath: string) {
     try {
       return await fs.stat(filePath);
@@ -74,13 +84,21 @@ export class FileUtils {
   }
 
   static getTruncatedFileName(originalName: string): string {
+    return FileUtils.getDerivedFileName(originalName, 'truncated');
+  }
+
+  static getDerivedFileName(originalName: string, suffix: string): string {
     if (!originalName || typeof originalName !== 'string') {
       throw new AppError('Invalid original filename', 400, 'INVALID_FILENAME');
     }
     
     const ext = path.extname(originalName);
     const baseName = path.basename(originalName, ext);
-    return `${baseName}_truncated${ext}`;
+    return `${baseName}_${suffix}${ext}`;
+  }
+
+  static withPdfExtension(filename: string): string {
+    return path.extname(filename).toLowerCase() === '.pdf' ? filename : `${filename}.pdf`;
   }
 
   static getUploadPath(filename: string): string {
@@ -99,6 +117,64 @@ export class FileUtils {
     return config.imagesDir;
   }
 
+  static getThumbnailPath(filename: string): string {
+    return path.join(config.thumbnailsDir, filename);
+  }
+
+  static getThumbnailsDir(): string {
+    return config.thumbnailsDir;
+  }
+
+  // Data directories whose files are kept in the blob store, by the object key prefix they map to
+  static getBlobDirectories(): Record<string, string> {
+    return {
+      uploads: config.uploadDir,
+      processed: config.processedDir,
+      images: config.imagesDir
+    };
+  }
+
+  /**
+   * The backend-neutral object key of a file in one of the blob directories,
+   * e.g. `processed/<key>_report_truncated.pdf`.
+   */
+  static getObjectKey(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    for (const [prefix, dirPath] of Object.entries(FileUtils.getBlobDirectories())) {
+      if (path.dirname(resolved) === path.resolve(dirPath)) {
+        return `${prefix}/${path.basename(resolved)}`;
+      }
+    }
+    throw new AppError(`File ${filePath} is not in a storage directory`, 500, 'INVALID_STORAGE_PATH');
+  }
+
+  // Where an object key lives in the data directories
+  static getObjectPath(objectKey: string): string {
+    const [prefix, fileName, ...rest] = objectKey.split('/');
+    const dirPath = FileUtils.getBlobDirectories()[prefix];
+    if (!dirPath || !fileName || rest.length > 0 || fileName === '.' || fileName === '..') {
+      throw new AppError(`Invalid object key: ${objectKey}`, 500, 'INVALID_OBJECT_KEY');
+    }
+    return path.join(dirPath, fileName);
+  }
+
+  // Deletes every file in a directory whose name starts with the prefix; returns how many were removed
+  static async deleteFilesWithPrefix(dirPath: string, prefix: string): Promise<number> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(dirPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    const matches = fileNames.filter(fileName => fileName.startsWith(prefix));
+    await Promise.all(matches.map(fileName => FileUtils.deleteFile(path.join(dirPath, fileName))));
+    return matches.length;
+  }
+
   static validateFileExtension(filename: string, allowedExtensions: string[]): boolean {
     const ext = path.extname(filename).toLowerCase();
     return allowedExtensions.includes(ext);
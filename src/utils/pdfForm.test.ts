@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PDFDocument, PDFFont, StandardFonts } from 'pdf-lib';
+import { ValidationError } from './errors';
+import { fillFormField, listFormFields } from './pdfForm';
+
+async function createForm(): Promise<{ doc: PDFDocument; font: PDFFont }> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage();
+  const form = doc.getForm();
+
+  const name = form.createTextField('name');
+  name.setMaxLength(5);
+  name.addToPage(page, { x: 10, y: 700 });
+  form.createCheckBox('agree').addToPage(page, { x: 10, y: 650 });
+  const size = form.createRadioGroup('size');
+  size.addOptionToPage('S', page, { x: 10, y: 600 });
+  size.addOptionToPage('M', page, { x: 40, y: 600 });
+  const country = form.createDropdown('country');
+  country.addOptions(['DE', 'FR']);
+  country.addToPage(page, { x: 10, y: 550 });
+
+  return { doc, font: await doc.embedFont(StandardFonts.Helvetica) };
+}
+
+test('fills fields with values that match their type and options', async () => {
+  const { doc, font } = await createForm();
+  const form = doc.getForm();
+
+  fillFormField(form.getField('name'), 'Ada', font);
+  fillFormField(form.getField('agree'), true, font);
+  fillFormField(form.getField('size'), 'M', font);
+  fillFormField(form.getField('country'), 'FR', font);
+
+  const values = Object.fromEntries(listFormFields(doc).map(field => [field.name, field.value]));
+  assert.deepEqual(values, { name: 'Ada', agree: true, size: 'M', country: ['FR'] });
+});
+
+test('rejects values of the wrong type, too long or outside the options', async () => {
+  const { doc, font } = await createForm();
+  const form = doc.getForm();
+  const rejects = (name: string, value: Parameters<typeof fillFormField>[1], message: RegExp) =>
+    assert.throws(() => fillFormField(form.getField(name), value, font), (error: unknown) =>
+      error instanceof ValidationError && message.test(error.message)
+    );
+
+  rejects('name', true, /is a text field and needs a string value/);
+  rejects('name', 'Adalbert', /accepts at most 5 characters/);
+  rejects('agree', 'yes', /is a checkbox and needs true or false/);
+  rejects('size', 'XL', /Invalid value "XL" for field "size"\. Options: S, M/);
+  rejects('size', ['S'], /is a radio group and needs one option/);
+  rejects('country', ['DE', 'FR'], /accepts only one option/);
+  rejects('country', false, /is a choice field/);
+});
+
+test('rejects text that the form font cannot encode', async () => {
+  const { doc, font } = await createForm();
+
+  assert.throws(() => fillFormField(doc.getForm().getField('name'), '日本', font), ValidationError);
+});
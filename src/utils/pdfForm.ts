@@ -0,0 +1,166 @@
+import {
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFFont,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField
+} from 'pdf-lib';
+import { FormField, FormFieldType, FormFieldValue } from '../types';
+import { ValidationError } from './errors';
+
+/**
+ * Lists every AcroForm field with its current value and the page of its first widget.
+ * Documents without a form have no fields.
+ */
+export function listFormFields(doc: PDFDocument): FormField[] {
+  const pageByWidget = mapWidgetsToPages(doc);
+
+  return doc.getForm().getFields().map(field => {
+    const widgetPages = field.acroField.getWidgets()
+      .map(widget => pageByWidget.get(widget.dict))
+      .filter((page): page is number => page !== undefined);
+
+    return {
+      name: field.getName(),
+      type: getFieldType(field),
+      value: readFieldValue(field),
+      ...describeFieldOptions(field),
+      page: widgetPages.length > 0 ? Math.min(...widgetPages) : null,
+      readOnly: field.isReadOnly(),
+      required: field.isRequired()
+    };
+  });
+}
+
+/**
+ * Writes one value into a field, checking it against the field's type and options.
+ * Appearances are regenerated right away so encoding problems are reported for this field.
+ */
+export function fillFormField(field: PDFField, value: FormFieldValue, font: PDFFont): void {
+  const name = field.getName();
+
+  if (field instanceof PDFTextField) {
+    if (value !== null && typeof value !== 'string') {
+      throw new ValidationError(`Field "${name}" is a text field and needs a string value`);
+    }
+    const maxLength = field.getMaxLength();
+    if (value !== null && maxLength !== undefined && value.length > maxLength) {
+      throw new ValidationError(`Field "${name}" accepts at most ${maxLength} characters`);
+    }
+    field.setText(value ?? undefined);
+  } else if (field instanceof PDFCheckBox) {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError(`Field "${name}" is a checkbox and needs true or false`);
+    }
+    if (value) {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup) {
+    if (value === null) {
+      field.clear();
+    } else {
+      if (typeof value !== 'string') {
+        throw new ValidationError(`Field "${name}" is a radio group and needs one option`);
+      }
+      assertValidOptions(name, [value], field.getOptions());
+      field.select(value);
+    }
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    if (typeof value === 'boolean') {
+      throw new ValidationError(`Field "${name}" is a choice field and needs an option or a list of options`);
+    }
+    const selected = value === null ? [] : Array.isArray(value) ? value : [value];
+    if (selected.length > 1 && !field.isMultiselect()) {
+      throw new ValidationError(`Field "${name}" accepts only one option`);
+    }
+    // Editable dropdowns also accept values that are not in their option list
+    if (!(field instanceof PDFDropdown && field.isEditable())) {
+      assertValidOptions(name, selected, field.getOptions());
+    }
+    if (selected.length === 0) {
+      field.clear();
+    } else {
+      field.select(selected);
+    }
+  } else {
+    throw new ValidationError(`Field "${name}" is a ${getFieldType(field)} and cannot be filled`);
+  }
+
+  try {
+    if (field instanceof PDFTextField || field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      field.updateAppearances(font);
+    }
+  } catch (error) {
+    throw new ValidationError(`Field "${name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function assertValidOptions(name: string, values: string[], options: string[]): void {
+  const invalid = values.filter(value => !options.includes(value));
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `Invalid value ${invalid.map(value => `"${value}"`).join(', ')} for field "${name}". Options: ${options.join(', ')}`
+    );
+  }
+}
+
+function getFieldType(field: PDFField): FormFieldType {
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown) return 'dropdown';
+  if (field instanceof PDFOptionList) return 'optionList';
+  if (field instanceof PDFSignature) return 'signature';
+  return 'button';
+}
+
+function readFieldValue(field: PDFField): FormFieldValue {
+  if (field instanceof PDFTextField) return field.getText() ?? null;
+  if (field instanceof PDFCheckBox) return field.isChecked();
+  if (field instanceof PDFRadioGroup) return field.getSelected() ?? null;
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return field.getSelected();
+  return null;
+}
+
+function describeFieldOptions(field: PDFField): Partial<FormField> {
+  if (field instanceof PDFTextField) {
+    return { multiline: field.isMultiline(), maxLength: field.getMaxLength() };
+  }
+  if (field instanceof PDFRadioGroup) {
+    return { options: field.getOptions() };
+  }
+  if (field instanceof PDFDropdown) {
+    return { options: field.getOptions(), multiSelect: field.isMultiselect(), editable: field.isEditable() };
+  }
+  if (field instanceof PDFOptionList) {
+    return { options: field.getOptions(), multiSelect: field.isMultiselect() };
+  }
+  return {};
+}
+
+// Widgets do not always carry a /P entry, so pages are found through their /Annots arrays
+function mapWidgetsToPages(doc: PDFDocument): Map<PDFDict, number> {
+  const pageByWidget = new Map<PDFDict, number>();
+
+  doc.getPages().forEach((page, index) => {
+    const annots = page.node.Annots();
+    if (!annots) {
+      return;
+    }
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookup(i);
+      if (annot instanceof PDFDict) {
+        pageByWidget.set(annot, index + 1);
+      }
+    }
+  });
+
+  return pageByWidget;
+}
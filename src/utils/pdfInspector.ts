@@ -0,0 +1,83 @@
+import { PDFDict, PDFDocument, PDFArray, PDFBool, PDFName, PDFString, PDFHexString } from 'pdf-lib';
+import { PdfDocumentInfo, PdfPageInfo, PdfSummary } from '../types';
+
+// Info dictionary keys defined by the PDF specification; anything else is a custom entry
+export const STANDARD_INFO_KEYS = [
+  'Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate', 'Trapped'
+];
+
+/**
+ * Collects the document-level facts that are stored with each file.
+ * `bytes` is the raw file, which is the only place the header version is recorded.
+ */
+export function describePdf(doc: PDFDocument, bytes?: Uint8Array): PdfSummary {
+  const acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  const fields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  const markInfo = doc.catalog.lookupMaybe(PDFName.of('MarkInfo'), PDFDict);
+
+  return {
+    pageCount: doc.getPageCount(),
+    pdfVersion: readPdfVersion(doc, bytes),
+    isEncrypted: doc.isEncrypted,
+    isTagged: markInfo?.lookupMaybe(PDFName.of('Marked'), PDFBool)?.asBoolean() ?? false,
+    hasForms: (fields?.size() ?? 0) > 0,
+    // Strings of an encrypted file cannot be decoded without the key
+    documentInfo: doc.isEncrypted ? {} : readDocumentInfo(doc)
+  };
+}
+
+export function describePages(doc: PDFDocument): PdfPageInfo[] {
+  return doc.getPages().map((page, index) => ({
+    pageNumber: index + 1,
+    mediaBox: page.getMediaBox(),
+    cropBox: page.getCropBox(),
+    rotation: page.getRotation().angle
+  }));
+}
+
+function readDocumentInfo(doc: PDFDocument): PdfDocumentInfo {
+  const custom = readCustomInfo(doc);
+  return {
+    title: doc.getTitle(),
+    author: doc.getAuthor(),
+    subject: doc.getSubject(),
+    keywords: doc.getKeywords(),
+    creator: doc.getCreator(),
+    producer: doc.getProducer(),
+    creationDate: doc.getCreationDate(),
+    modificationDate: doc.getModificationDate(),
+    ...(Object.keys(custom).length > 0 && { custom })
+  };
+}
+
+export function readCustomInfo(doc: PDFDocument): Record<string, string> {
+  const info = doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+  const custom: Record<string, string> = {};
+  if (!info) {
+    return custom;
+  }
+
+  for (const [name, value] of info.entries()) {
+    const key = name.decodeText();
+    if (STANDARD_INFO_KEYS.includes(key)) {
+      continue;
+    }
+    const resolved = doc.context.lookup(value);
+    if (resolved instanceof PDFString || resolved instanceof PDFHexString || resolved instanceof PDFName) {
+      custom[key] = resolved.decodeText();
+    }
+  }
+  return custom;
+}
+
+function readPdfVersion(doc: PDFDocument, bytes?: Uint8Array): string | undefined {
+  const header = bytes ? Buffer.from(bytes.subarray(0, 1024)).toString('latin1') : '';
+  const headerVersion = /%PDF-(\d+\.\d+)/.exec(header)?.[1];
+
+  // An incremental update can raise the version through the catalog's /Version entry
+  const catalogVersion = doc.catalog.lookupMaybe(PDFName.of('Version'), PDFName)?.decodeText();
+  if (catalogVersion && (!headerVersion || parseFloat(catalogVersion) > parseFloat(headerVersion))) {
+    return catalogVersion;
+  }
+  return headerVersion;
+}
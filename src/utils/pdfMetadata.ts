@@ -0,0 +1,128 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import { MetadataInfoUpdate, PdfDocumentInfo } from '../types';
+
+// PDF info dictionary key for each standard field of a metadata update
+const INFO_KEYS: Record<keyof MetadataInfoUpdate, string> = {
+  title: 'Title',
+  author: 'Author',
+  subject: 'Subject',
+  keywords: 'Keywords',
+  creator: 'Creator',
+  producer: 'Producer',
+  creationDate: 'CreationDate',
+  modificationDate: 'ModDate'
+};
+
+/**
+ * Writes standard and custom entries into the document information dictionary.
+ * A null value removes the entry; fields that are not mentioned are left as they are.
+ */
+export function applyDocumentInfo(
+  doc: PDFDocument,
+  info: MetadataInfoUpdate = {},
+  custom: Record<string, string | null> = {}
+): void {
+  const infoDict = getOrCreateInfoDict(doc);
+
+  for (const [field, key] of Object.entries(INFO_KEYS) as [keyof MetadataInfoUpdate, string][]) {
+    const value = info[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      infoDict.delete(PDFName.of(key));
+    } else if (value instanceof Date) {
+      infoDict.set(PDFName.of(key), PDFString.fromDate(value));
+    } else {
+      const text = Array.isArray(value) ? value.join(', ') : value;
+      infoDict.set(PDFName.of(key), PDFHexString.fromText(text));
+    }
+  }
+
+  for (const [key, value] of Object.entries(custom)) {
+    if (value === null) {
+      infoDict.delete(PDFName.of(key));
+    } else {
+      infoDict.set(PDFName.of(key), PDFHexString.fromText(value));
+    }
+  }
+}
+
+/**
+ * Replaces the catalog's XMP metadata stream with one that mirrors the given document info,
+ * so readers that prefer XMP over the info dictionary show the same values.
+ */
+export function writeXmpMetadata(doc: PDFDocument, info: PdfDocumentInfo): void {
+  const xmp = buildXmpPacket(info);
+  const stream = doc.context.stream(Buffer.from(xmp, 'utf8'), { Type: 'Metadata', Subtype: 'XML' });
+  doc.catalog.set(PDFName.of('Metadata'), doc.context.register(stream));
+}
+
+function getOrCreateInfoDict(doc: PDFDocument): PDFDict {
+  const existing = doc.context.lookupMaybe(doc.context.trailerInfo.Info, PDFDict);
+  if (existing) {
+    return existing;
+  }
+
+  const infoDict = doc.context.obj({});
+  doc.context.trailerInfo.Info = doc.context.register(infoDict);
+  return infoDict;
+}
+
+function buildXmpPacket(info: PdfDocumentInfo): string {
+  const properties: string[] = [];
+
+  if (info.title !== undefined) {
+    properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.title)}</rdf:li></rdf:Alt></dc:title>`);
+  }
+  if (info.author !== undefined) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeXml(info.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (info.subject !== undefined) {
+    properties.push(`<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(info.subject)}</rdf:li></rdf:Alt></dc:description>`);
+  }
+  if (info.keywords !== undefined) {
+    properties.push(`<pdf:Keywords>${escapeXml(info.keywords)}</pdf:Keywords>`);
+  }
+  if (info.producer !== undefined) {
+    properties.push(`<pdf:Producer>${escapeXml(info.producer)}</pdf:Producer>`);
+  }
+  if (info.creator !== undefined) {
+    properties.push(`<xmp:CreatorTool>${escapeXml(info.creator)}</xmp:CreatorTool>`);
+  }
+  if (info.creationDate) {
+    properties.push(`<xmp:CreateDate>${info.creationDate.toISOString()}</xmp:CreateDate>`);
+  }
+  if (info.modificationDate) {
+    properties.push(`<xmp:ModifyDate>${info.modificationDate.toISOString()}</xmp:ModifyDate>`);
+    properties.push(`<xmp:MetadataDate>${info.modificationDate.toISOString()}</xmp:MetadataDate>`);
+  }
+  // Custom info entries go in the pdfx schema, which is where Acrobat puts them too
+  for (const [key, value] of Object.entries(info.custom ?? {})) {
+    properties.push(`<pdfx:${key}>${escapeXml(value)}</pdfx:${key}>`);
+  }
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    ' xmlns:pdfx="http://ns.adobe.com/pdfx/1.3/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,157 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFObject, PDFRef, PDFString } from 'pdf-lib';
+
+// A top-level bookmark pointing at a page (0-based)
+export interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+}
+
+/**
+ * Replaces the document outline with one flat list of bookmarks.
+ * pdf-lib has no outline API, so the dictionaries are built by hand.
+ */
+export function addOutline(doc: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const context = doc.context;
+  const pageRefs = doc.getPages().map(page => page.ref);
+  const outlinesRef = context.nextRef();
+  const itemRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlinesRef,
+      Dest: [pageRefs[entry.pageIndex], 'Fit'],
+      ...(index > 0 && { Prev: itemRefs[index - 1] }),
+      ...(index < entries.length - 1 && { Next: itemRefs[index + 1] })
+    });
+    context.assign(itemRefs[index], item);
+  });
+
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length
+  }));
+
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+/**
+ * Reads the top-level bookmarks of a document, in outline order.
+ * Entries whose destination cannot be resolved to a page are skipped.
+ */
+export function readTopLevelOutline(doc: PDFDocument): OutlineEntry[] {
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (!outlines) {
+    return [];
+  }
+
+  const pageIndexByRef = new Map<string, number>();
+  doc.getPages().forEach((page, index) => pageIndexByRef.set(page.ref.toString(), index));
+
+  const entries: OutlineEntry[] = [];
+  const visited = new Set<PDFDict>();
+  let item = outlines.lookupMaybe(PDFName.of('First'), PDFDict);
+
+  // Malformed files can link items in a loop, so stop at the first repeat
+  while (item && !visited.has(item)) {
+    visited.add(item);
+
+    const title = item.lookupMaybe(PDFName.of('Title'), PDFString, PDFHexString)?.decodeText() ?? '';
+    const pageIndex = resolveDestinationPage(doc, item, pageIndexByRef);
+    if (pageIndex !== undefined) {
+      entries.push({ title, pageIndex });
+    }
+
+    item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+  }
+
+  return entries;
+}
+
+function resolveDestinationPage(
+  doc: PDFDocument,
+  item: PDFDict,
+  pageIndexByRef: Map<string, number>
+): number | undefined {
+  let destination = item.get(PDFName.of('Dest'));
+
+  // Bookmarks may use a GoTo action instead of a direct destination
+  if (!destination) {
+    const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+    if (action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('GoTo')) {
+      destination = action.get(PDFName.of('D'));
+    }
+  }
+
+  let resolved = destination instanceof PDFRef ? doc.context.lookup(destination) : destination;
+
+  // Named destinations point into the catalog's Dests dictionary or the Names tree
+  if (resolved instanceof PDFName || resolved instanceof PDFString || resolved instanceof PDFHexString) {
+    resolved = lookupNamedDestination(doc, resolved);
+  }
+  if (resolved instanceof PDFDict) {
+    resolved = resolved.lookup(PDFName.of('D'));
+  }
+  if (!(resolved instanceof PDFArray) || resolved.size() === 0) {
+    return undefined;
+  }
+
+  const target = resolved.get(0);
+  if (target instanceof PDFRef) {
+    return pageIndexByRef.get(target.toString());
+  }
+  if (target instanceof PDFNumber) {
+    return target.asNumber();
+  }
+  return undefined;
+}
+
+function lookupNamedDestination(doc: PDFDocument, name: PDFName | PDFString | PDFHexString): PDFObject | undefined {
+  if (name instanceof PDFName) {
+    const dests = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    return dests?.lookup(name);
+  }
+
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const tree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  return tree ? searchNameTree(tree, name.decodeText(), new Set()) : undefined;
+}
+
+function searchNameTree(node: PDFDict, key: string, visited: Set<PDFDict>): PDFObject | undefined {
+  if (visited.has(node)) {
+    return undefined;
+  }
+  visited.add(node);
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const entryKey = names.lookup(i);
+      if ((entryKey instanceof PDFString || entryKey instanceof PDFHexString) && entryKey.decodeText() === key) {
+        return names.lookup(i + 1);
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) {
+        const found = searchNameTree(kid, key, visited);
+        if (found) {
+          return found;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
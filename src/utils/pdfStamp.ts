@@ -0,0 +1,107 @@
+import { PDFFont, PDFImage, PDFPage, RGB, degrees, rgb } from 'pdf-lib';
+import { StampPosition } from '../types';
+
+const LINE_HEIGHT = 1.2;
+
+export type StampContent =
+  | { type: 'text'; text: string; font: PDFFont; fontSize: number; color: RGB }
+  | { type: 'image'; image: PDFImage; width: number; height: number };
+
+export interface StampLayout {
+  position: StampPosition;
+  margin: number;
+  offsetX: number;
+  offsetY: number;
+  rotation: number;
+  opacity: number;
+}
+
+// Parses '#rrggbb' (or 'rrggbb') into a pdf-lib color
+export function hexToRgb(hex: string): RGB {
+  const value = parseInt(hex.replace(/^#/, ''), 16);
+  return rgb(((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255);
+}
+
+// Replaces {page}, {total} and {date} in stamp text
+export function fillPlaceholders(text: string, values: { page: number; total: number; date: string }): string {
+  return text
+    .replace(/\{page\}/g, values.page.toString())
+    .replace(/\{total\}/g, values.total.toString())
+    .replace(/\{date\}/g, values.date);
+}
+
+/**
+ * Draws a text or image stamp on a page. The stamp is placed in the page's crop box
+ * by position and margin, then rotated about its own center.
+ * Positions are relative to the unrotated page.
+ */
+export function drawStamp(page: PDFPage, content: StampContent, layout: StampLayout): void {
+  const lines = content.type === 'text' ? content.text.split(/\r?\n/) : [];
+  const width = content.type === 'text'
+    ? Math.max(...lines.map(line => content.font.widthOfTextAtSize(line, content.fontSize)))
+    : content.width;
+  const height = content.type === 'text'
+    ? lines.length * content.fontSize * LINE_HEIGHT
+    : content.height;
+
+  const [vertical, horizontal] = splitPosition(layout.position);
+  const box = page.getCropBox();
+  const left = {
+    left: box.x + layout.margin,
+    center: box.x + (box.width - width) / 2,
+    right: box.x + box.width - layout.margin - width
+  }[horizontal] + layout.offsetX;
+  const bottom = {
+    bottom: box.y + layout.margin,
+    center: box.y + (box.height - height) / 2,
+    top: box.y + box.height - layout.margin - height
+  }[vertical] + layout.offsetY;
+
+  // pdf-lib rotates about the drawing origin, so each origin is moved to keep the stamp centered
+  const centerX = left + width / 2;
+  const centerY = bottom + height / 2;
+  const radians = (layout.rotation * Math.PI) / 180;
+  const place = (localX: number, localY: number) => {
+    const dx = localX - width / 2;
+    const dy = localY - height / 2;
+    return {
+      x: centerX + dx * Math.cos(radians) - dy * Math.sin(radians),
+      y: centerY + dx * Math.sin(radians) + dy * Math.cos(radians)
+    };
+  };
+
+  if (content.type === 'image') {
+    page.drawImage(content.image, {
+      ...place(0, 0),
+      width,
+      height,
+      rotate: degrees(layout.rotation),
+      opacity: layout.opacity
+    });
+    return;
+  }
+
+  const lineHeight = content.fontSize * LINE_HEIGHT;
+  lines.forEach((line, index) => {
+    const lineWidth = content.font.widthOfTextAtSize(line, content.fontSize);
+    // Lines follow the horizontal position: left-aligned, centered or right-aligned
+    const localX = horizontal === 'left' ? 0 : horizontal === 'center' ? (width - lineWidth) / 2 : width - lineWidth;
+    const localY = height - (index + 1) * lineHeight + (lineHeight - content.fontSize) / 2 + content.fontSize * 0.2;
+    page.drawText(line, {
+      ...place(localX, localY),
+      font: content.font,
+      size: content.fontSize,
+      color: content.color,
+      rotate: degrees(layout.rotation),
+      opacity: layout.opacity
+    });
+  });
+}
+
+function splitPosition(position: StampPosition): ['top' | 'center' | 'bottom', 'left' | 'center' | 'right'] {
+  if (position === 'center') {
+    return ['center', 'center'];
+  }
+  const [vertical, horizontal] = position.split('-');
+  return [vertical as 'top' | 'center' | 'bottom', horizontal as 'left' | 'center' | 'right'];
+}
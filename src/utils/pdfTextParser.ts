@@ -0,0 +1,67 @@
+import { TextBoundingBox, TextLine, TextWord } from '../types';
+
+// One <page> element of pdftotext's -bbox / -bbox-layout XHTML output
+export interface BoundingBoxPage {
+  width: number;
+  height: number;
+  words: TextWord[];
+  lines: TextLine[];
+}
+
+const PAGE_PATTERN = /<page width="([\d.]+)" height="([\d.]+)">([\s\S]*?)<\/page>/g;
+const LINE_PATTERN = /<line (xMin="[^"]*" yMin="[^"]*" xMax="[^"]*" yMax="[^"]*")>([\s\S]*?)<\/line>/g;
+const WORD_PATTERN = /<word (xMin="[^"]*" yMin="[^"]*" xMax="[^"]*" yMax="[^"]*")>([\s\S]*?)<\/word>/g;
+const BOX_PATTERN = /xMin="([\d.-]+)" yMin="([\d.-]+)" xMax="([\d.-]+)" yMax="([\d.-]+)"/;
+
+/**
+ * Parses the XHTML that pdftotext writes with -bbox (words only) or -bbox-layout
+ * (blocks, lines and words). Lines are only present in the -bbox-layout output.
+ */
+export function parseBoundingBoxXhtml(xhtml: string): BoundingBoxPage[] {
+  const pages: BoundingBoxPage[] = [];
+
+  for (const [, width, height, body] of xhtml.matchAll(PAGE_PATTERN)) {
+    const lines: TextLine[] = [];
+    for (const [, box, lineBody] of body.matchAll(LINE_PATTERN)) {
+      const words = parseWords(lineBody);
+      lines.push({ ...parseBox(box), text: words.map(word => word.text).join(' '), words });
+    }
+
+    pages.push({
+      width: parseFloat(width),
+      height: parseFloat(height),
+      words: parseWords(body),
+      lines
+    });
+  }
+
+  return pages;
+}
+
+function parseWords(xhtml: string): TextWord[] {
+  return [...xhtml.matchAll(WORD_PATTERN)].map(([, box, text]) => ({
+    ...parseBox(box),
+    text: decodeEntities(text)
+  }));
+}
+
+function parseBox(attributes: string): TextBoundingBox {
+  const [, xMin, yMin, xMax, yMax] = BOX_PATTERN.exec(attributes) ?? [];
+  return {
+    xMin: parseFloat(xMin),
+    yMin: parseFloat(yMin),
+    xMax: parseFloat(xMax),
+    yMax: parseFloat(yMax)
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
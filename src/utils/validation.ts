@@ -1,30 +1,335 @@
 // src/utils/validation.ts
 
 import Joi from 'joi';
-import { TruncationRequest, ImageConversionRequest } from '../types';
+import {
+  TruncationRequest,
+  ImageConversionRequest,
+  MergeRequest,
+  SplitRequest,
+  EditRequest,
+  TextExtractionRequest,
+  MetadataRequest,
+  StampRequest,
+  FormFillRequest,
+  ImagesToPdfRequest,
+  DecryptRequest,
+  ThumbnailRequest,
+  ImageArchiveRequest,
+  ArchiveRequest,
+  UrlUploadRequest,
+  Base64Upload,
+  UploadSessionRequest,
+  CompleteUploadRequest,
+  FileExpiryRequest,
+  ReconciliationRequest
+} from '../types';
+import { config } from '../config';
 import { ValidationError } from './errors'; // Import your custom error
 
+// Where to POST the signed result once a background job finishes
+const callbackUrlSchema = Joi.string().uri({ scheme: ['http', 'https'] });
+
+// Owner or user password of an encrypted PDF. Multipart forms send an empty field for "no password".
+const passwordSchema = Joi.string().max(1024).empty('');
+
+// Page selection fields shared by every request that picks pages out of a PDF
+const pagesSchema = Joi.array()
+  .items(Joi.number().integer().min(1))
+  .min(1);
+
+const pageRangeSchema = Joi.object({
+  start: Joi.number().integer().min(1).required(),
+  end: Joi.number().integer().min(Joi.ref('start'))
+});
+
+// Lifetime of a stored file in seconds; 0 keeps it until it is deleted
+const ttlSecondsSchema = Joi.number().integer().min(0).max(10 * 365 * 24 * 60 * 60);
+
+// Whether an upload with the same contents as a stored original returns that file's key
+const deduplicateSchema = Joi.boolean().default(config.dedupeUploads);
+
+// Output names for new derived files
+const outputNameSchema = Joi.string().trim().min(1).max(200);
+
 export const truncationRequestSchema = Joi.object({
-  pages: Joi.array()
-    .items(Joi.number().integer().min(1))
-    .min(1),
-  pageRange: Joi.object({
-    start: Joi.number().integer().min(1).required(),
-    end: Joi.number().integer().min(Joi.ref('start'))
-  })
+  pages: pagesSchema,
+  pageRange: pageRangeSchema,
+  callbackUrl: callbackUrlSchema,
+  password: passwordSchema
 }).xor('pages', 'pageRange');
 
 export const imageConversionRequestSchema = Joi.object({
-  pages: Joi.array()
-    .items(Joi.number().integer().min(1))
-    .min(1),
-  pageRange: Joi.object({
-    start: Joi.number().integer().min(1).required(),
-    end: Joi.number().integer().min(Joi.ref('start'))
-  }),
+  pages: pagesSchema,
+  pageRange: pageRangeSchema,
   format: Joi.string().valid('png', 'jpeg', 'tiff').default('png'),
-  scale: Joi.number().min(0.1).max(10).default(1)
-}).xor('pages', 'pageRange');
+  // Output size: a legacy scale factor (of 1024px on the long side), a resolution, or a box to fit
+  scale: Joi.number().min(0.1).max(10),
+  dpi: Joi.number().integer().min(18).max(1200),
+  width: Joi.number().integer().min(1).max(10000),
+  height: Joi.number().integer().min(1).max(10000),
+  color: Joi.string().valid('color', 'grayscale', 'monochrome').default('color')
+    .when('format', { is: 'jpeg', then: Joi.valid('color', 'grayscale') }),
+  jpegQuality: Joi.number().integer().min(1).max(100)
+    .when('format', { not: 'jpeg', then: Joi.forbidden().messages({ 'any.unknown': 'jpegQuality is only allowed with jpeg format' }) }),
+  transparent: Joi.boolean().default(false)
+    .when('format', { is: 'jpeg', then: Joi.valid(false).messages({ 'any.only': 'transparent background requires png or tiff format' }) }),
+  box: Joi.string().valid('media', 'crop').default('media'),
+  region: Joi.object({
+    x: Joi.number().integer().min(0).required(),
+    y: Joi.number().integer().min(0).required(),
+    width: Joi.number().integer().min(1).required(),
+    height: Joi.number().integer().min(1).required()
+  }),
+  callbackUrl: callbackUrlSchema,
+  password: passwordSchema
+}).xor('pages', 'pageRange')
+  .oxor('scale', 'dpi', 'width')
+  .oxor('scale', 'dpi', 'height');
+
+export const mergeRequestSchema = Joi.object({
+  sources: Joi.array()
+    .items(Joi.object({
+      key: Joi.string().required(),
+      pages: pagesSchema,
+      pageRange: pageRangeSchema
+    }).oxor('pages', 'pageRange'))
+    .min(1)
+    .max(config.maxMergeSources)
+    .required(),
+  outputName: outputNameSchema,
+  outline: Joi.boolean().default(false)
+});
+
+export const splitRequestSchema = Joi.object({
+  mode: Joi.string().valid('every', 'breaks', 'outline').required(),
+  every: Joi.number().integer().min(1).when('mode', {
+    is: 'every',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  breaks: Joi.array()
+    .items(Joi.number().integer().min(2))
+    .min(1)
+    .unique()
+    .when('mode', {
+      is: 'breaks',
+      then: Joi.required(),
+      otherwise: Joi.forbidden()
+    }),
+  outputName: outputNameSchema
+});
+
+const editOperationTypes = ['rotate', 'move', 'delete', 'duplicate', 'insertBlank'];
+
+const editOperationSchema = Joi.alternatives().conditional('.op', {
+  switch: [
+    {
+      is: 'rotate',
+      then: Joi.object({
+        op: Joi.string().required(),
+        pages: pagesSchema.required(),
+        angle: Joi.number().valid(90, 180, 270).required()
+      })
+    },
+    {
+      is: 'move',
+      then: Joi.object({
+        op: Joi.string().required(),
+        pages: pagesSchema.unique().required(),
+        to: Joi.number().integer().min(1).required()
+      })
+    },
+    {
+      is: 'delete',
+      then: Joi.object({
+        op: Joi.string().required(),
+        pages: pagesSchema.unique().required()
+      })
+    },
+    {
+      is: 'duplicate',
+      then: Joi.object({
+        op: Joi.string().required(),
+        pages: pagesSchema.required(),
+        copies: Joi.number().integer().min(1).max(100).default(1)
+      })
+    },
+    {
+      is: 'insertBlank',
+      then: Joi.object({
+        op: Joi.string().required(),
+        at: Joi.number().integer().min(1).required(),
+        count: Joi.number().integer().min(1).max(100).default(1),
+        size: Joi.string().valid('A3', 'A4', 'A5', 'Letter', 'Legal'),
+        width: Joi.number().min(1).max(14400),
+        height: Joi.number().min(1).max(14400)
+      }).and('width', 'height').oxor('size', 'width')
+    }
+  ],
+  otherwise: Joi.object({
+    op: Joi.string().valid(...editOperationTypes).required()
+  }).unknown()
+});
+
+export const editRequestSchema = Joi.object({
+  operations: Joi.array().items(editOperationSchema).min(1).max(500).required(),
+  outputName: outputNameSchema
+});
+
+export const textExtractionRequestSchema = Joi.object({
+  pages: pagesSchema,
+  pageRange: pageRangeSchema,
+  mode: Joi.string().valid('plain', 'raw', 'layout', 'words', 'lines').default('plain'),
+  password: passwordSchema
+}).oxor('pages', 'pageRange');
+
+export const stampRequestSchema = Joi.object({
+  pages: pagesSchema,
+  pageRange: pageRangeSchema,
+  text: Joi.string().min(1).max(1000),
+  image: Joi.object({
+    key: Joi.string(),
+    data: Joi.string().base64({ paddingRequired: false }).max(10 * 1024 * 1024),
+    width: Joi.number().positive().max(14400),
+    height: Joi.number().positive().max(14400),
+    scale: Joi.number().min(0.01).max(10)
+  }).xor('key', 'data'),
+  position: Joi.string()
+    .valid('top-left', 'top-center', 'top-right', 'center-left', 'center', 'center-right', 'bottom-left', 'bottom-center', 'bottom-right')
+    .default('center'),
+  margin: Joi.number().min(0).max(1000).default(36),
+  offsetX: Joi.number().min(-14400).max(14400).default(0),
+  offsetY: Joi.number().min(-14400).max(14400).default(0),
+  rotation: Joi.number().min(-360).max(360).default(0),
+  opacity: Joi.number().min(0).max(1).default(1),
+  fontSize: Joi.number().min(1).max(500).default(12),
+  font: Joi.string()
+    .valid('Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Times-Roman', 'Times-Bold', 'Courier', 'Courier-Bold')
+    .default('Helvetica'),
+  color: Joi.string().pattern(/^#?[0-9a-fA-F]{6}$/).default('#000000')
+    .messages({ 'string.pattern.base': '{{#label}} must be a hex color like #ff0000' }),
+  outputName: outputNameSchema
+}).xor('text', 'image').oxor('pages', 'pageRange');
+
+export const imagesToPdfRequestSchema = Joi.object({
+  imageKeys: Joi.array().items(Joi.string()).min(1).max(config.maxImagesPerUpload),
+  pageSize: Joi.string().valid('fit', 'A4', 'Letter').default('fit'),
+  orientation: Joi.string().valid('auto', 'portrait', 'landscape').default('auto'),
+  margin: Joi.number().min(0).max(500).default(0),
+  outputName: outputNameSchema
+});
+
+export const decryptRequestSchema = Joi.object({
+  password: passwordSchema,
+  outputName: outputNameSchema
+});
+
+export const thumbnailRequestSchema = Joi.object({
+  page: Joi.number().integer().min(1).required(),
+  width: Joi.number().integer().min(16).max(config.thumbnailMaxWidth).default(config.thumbnailDefaultWidth)
+});
+
+// JSON uploads carry the PDF as base64; other body fields are left for the route to validate
+export const base64UploadSchema = Joi.object({
+  filename: Joi.string().trim().min(1).max(255).required(),
+  data: Joi.string().base64().required()
+}).unknown(true);
+
+export const uploadSessionRequestSchema = Joi.object({
+  filename: Joi.string().trim().min(1).max(255).required(),
+  totalSize: Joi.number().integer().min(1).max(config.maxFileSize).required()
+    .messages({ 'number.max': `File too large. Maximum size is ${config.maxFileSize} bytes.` })
+});
+
+export const completeUploadRequestSchema = Joi.object({
+  password: passwordSchema,
+  ttlSeconds: ttlSecondsSchema,
+  deduplicate: deduplicateSchema
+});
+
+// Byte position a chunk starts at, sent in the Upload-Offset header
+export const uploadOffsetSchema = Joi.number().integer().min(0).required().label('Upload-Offset header');
+
+// ?inline=base64 embeds result files in the JSON response
+export const inlineModeSchema = Joi.string().valid('base64');
+
+// Headers that the download itself controls cannot be overridden
+const forbiddenFetchHeaders = ['host', 'content-length', 'connection', 'transfer-encoding', 'cookie'];
+
+export const urlUploadRequestSchema = Joi.object({
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+  headers: Joi.object().pattern(
+    Joi.string().pattern(/^[A-Za-z0-9-]+$/).invalid(...forbiddenFetchHeaders).insensitive(),
+    Joi.string().max(8192)
+  ).max(20),
+  filename: outputNameSchema,
+  timeoutMs: Joi.number().integer().min(1000).max(config.urlFetchTimeout).default(config.urlFetchTimeout),
+  password: passwordSchema,
+  ttlSeconds: ttlSecondsSchema,
+  deduplicate: deduplicateSchema
+});
+
+export const fileExpiryRequestSchema = Joi.object({
+  ttlSeconds: ttlSecondsSchema,
+  expiresAt: Joi.date().iso().greater('now').allow(null)
+}).xor('ttlSeconds', 'expiresAt');
+
+export const reconciliationRequestSchema = Joi.object({
+  dryRun: Joi.boolean().default(true),
+  minAgeMs: Joi.number().integer().min(0).default(config.reconcileMinAge)
+});
+
+export const imageArchiveRequestSchema = Joi.object({
+  pages: pagesSchema,
+  format: Joi.string().valid('png', 'jpeg', 'tiff')
+});
+
+// Keys are looked up one by one, so an archive is capped well below the ZIP entry limit
+const archiveKeysSchema = Joi.array().items(Joi.string().trim().min(1)).min(1).max(1000).unique();
+
+export const archiveRequestSchema = Joi.object({
+  fileKeys: archiveKeysSchema,
+  imageKeys: archiveKeysSchema,
+  name: outputNameSchema
+}).or('fileKeys', 'imageKeys');
+
+export const formFillRequestSchema = Joi.object({
+  fields: Joi.object().pattern(
+    Joi.string(),
+    Joi.alternatives().try(Joi.string().allow(''), Joi.boolean(), Joi.array().items(Joi.string()), null)
+  ),
+  flatten: Joi.boolean().default(false),
+  outputName: outputNameSchema
+}).or('fields', 'flatten');
+
+// Document info strings; null removes the entry from the file
+const infoTextSchema = Joi.string().max(2000).allow('', null);
+const infoDateSchema = Joi.date().iso().allow(null);
+
+// Custom info keys become PDF names, and may not shadow the standard entries
+const customInfoKeyPattern =
+  /^(?!(?:Title|Author|Subject|Keywords|Creator|Producer|CreationDate|ModDate|Trapped)$)[A-Za-z][A-Za-z0-9_.-]{0,63}$/;
+
+export const metadataRequestSchema = Joi.object({
+  info: Joi.object({
+    title: infoTextSchema,
+    author: infoTextSchema,
+    subject: infoTextSchema,
+    keywords: Joi.alternatives().try(Joi.array().items(Joi.string().max(200)).max(100), infoTextSchema),
+    creator: infoTextSchema,
+    producer: infoTextSchema,
+    creationDate: infoDateSchema,
+    modificationDate: infoDateSchema
+  }).min(1),
+  custom: Joi.object()
+    .pattern(customInfoKeyPattern, infoTextSchema)
+    .min(1)
+    .max(50)
+    .messages({ 'object.unknown': '{{#label}} is not a valid custom info key' }),
+  xmp: Joi.boolean(),
+  inPlace: Joi.boolean().default(false),
+  outputName: outputNameSchema.when('inPlace', { is: true, then: Joi.forbidden() })
+}).or('info', 'custom', 'xmp');
 
 export const validateTruncationRequest = (data: any): TruncationRequest => {
   // FIX: Removed .options({ presence: 'required' }) which conflicted with .xor()
@@ -47,4 +352,212 @@ export const validateImageConversionRequest = (data: any): ImageConversionReques
     throw new ValidationError(error.details[0].message);
   }
   return value;
-};
\ No newline at end of file
+};
+
+export const validateMergeRequest = (data: any): MergeRequest => {
+  const { error, value } = mergeRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateSplitRequest = (data: any): SplitRequest => {
+  const { error, value } = splitRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateEditRequest = (data: any): EditRequest => {
+  const { error, value } = editRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateTextExtractionRequest = (data: any): TextExtractionRequest => {
+  const { error, value } = textExtractionRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateMetadataRequest = (data: any): MetadataRequest => {
+  const { error, value } = metadataRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateStampRequest = (data: any): StampRequest => {
+  const { error, value } = stampRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateFormFillRequest = (data: any): FormFillRequest => {
+  const { error, value } = formFillRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateImagesToPdfRequest = (data: any): ImagesToPdfRequest => {
+  const { error, value } = imagesToPdfRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateDecryptRequest = (data: any): DecryptRequest => {
+  const { error, value } = decryptRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateThumbnailRequest = (data: any): ThumbnailRequest => {
+  const { error, value } = thumbnailRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateImageArchiveRequest = (data: any): ImageArchiveRequest => {
+  const { error, value } = imageArchiveRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateArchiveRequest = (data: any): ArchiveRequest => {
+  const { error, value } = archiveRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateUrlUploadRequest = (data: any): UrlUploadRequest => {
+  const { error, value } = urlUploadRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateBase64Upload = (data: any): Base64Upload & Record<string, unknown> => {
+  const { error, value } = base64UploadSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const isInlineBase64Requested = (inline: unknown): boolean => {
+  const { error, value } = inlineModeSchema.label('inline').validate(inline);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value === 'base64';
+};
+
+export const validateUploadSessionRequest = (data: any): UploadSessionRequest => {
+  const { error, value } = uploadSessionRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateCompleteUploadRequest = (data: any): CompleteUploadRequest => {
+  const { error, value } = completeUploadRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateUploadOffset = (offset: unknown): number => {
+  const { error, value } = uploadOffsetSchema.validate(offset);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+// ttlSeconds form field of a multipart or base64 upload
+export const validateTtlSeconds = (ttlSeconds: unknown): number | undefined => {
+  const { error, value } = ttlSecondsSchema.label('ttlSeconds').validate(ttlSeconds);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateDeduplicate = (deduplicate: unknown): boolean => {
+  const { error, value } = deduplicateSchema.label('deduplicate').validate(deduplicate);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validatePassword = (password: unknown): string | undefined => {
+  const { error, value } = passwordSchema.label('password').validate(password);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateFileExpiryRequest = (data: any): FileExpiryRequest => {
+  const { error, value } = fileExpiryRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
+
+export const validateReconciliationRequest = (data: any): ReconciliationRequest => {
+  const { error, value } = reconciliationRequestSchema.validate(data);
+
+  if (error) {
+    throw new ValidationError(error.details[0].message);
+  }
+  return value;
+};
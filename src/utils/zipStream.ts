@@ -0,0 +1,147 @@
+import { Readable, PassThrough } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { ProcessingError } from './errors';
+
+export interface ZipEntry {
+  name: string;
+  // Opened only when the entry is written, so one stream is open at a time
+  open: () => Promise<Readable>;
+  modifiedAt?: Date;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// Bit 3: sizes and CRC follow the data in a descriptor. Bit 11: names are UTF-8.
+const FLAGS = 0x0808;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+// Without ZIP64 records, sizes and offsets have to fit in 32 bits
+const MAX_ZIP32 = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, chunk: Buffer): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  // DOS timestamps start in 1980 and have two-second resolution
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Streams a ZIP archive of the given files, deflating each one as it is read.
+ * Nothing is buffered beyond the current chunk and no temporary archive is written,
+ * so CRCs and sizes go into a data descriptor after each entry.
+ */
+export function createZipStream(entries: ZipEntry[]): Readable {
+  return Readable.from(generateZip(entries));
+}
+
+async function* generateZip(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const localHeaderOffset = offset;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (14-25) stay zero until the data descriptor
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    yield header;
+    yield name;
+    offset += header.length + name.length;
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    const source = await entry.open();
+    source.on('data', (chunk) => {
+      const data = chunk as Buffer;
+      crc = updateCrc32(crc, data);
+      size += data.length;
+    });
+    const deflated = new PassThrough();
+    const compression = pipeline(source, zlib.createDeflateRaw(), deflated);
+    // Errors are rethrown by the await below; this covers a client that disconnects mid-entry
+    compression.catch(() => undefined);
+
+    for await (const chunk of deflated) {
+      compressedSize += chunk.length;
+      yield chunk as Buffer;
+    }
+    await compression;
+    offset += compressedSize;
+
+    if (size > MAX_ZIP32 || offset > MAX_ZIP32) {
+      throw new ProcessingError('Archive is too large; ZIP archives without ZIP64 are limited to 4 GB');
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    record.writeUInt16LE(VERSION, 4);
+    record.writeUInt16LE(VERSION, 6);
+    record.writeUInt16LE(FLAGS, 8);
+    record.writeUInt16LE(METHOD_DEFLATE, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(compressedSize, 20);
+    record.writeUInt32LE(size, 24);
+    record.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes (30-41) are all zero
+    record.writeUInt32LE(localHeaderOffset, 42);
+    centralDirectory.push(record, name);
+  }
+
+  const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  yield* centralDirectory;
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  yield end;
+}